@@ -1,10 +1,1402 @@
-import { Devvit, useState } from '@devvit/public-api';
+import { Devvit, useAsync, useInterval, useState } from '@devvit/public-api';
+import type { JSONObject, ModeratorPermission, RedisClient, Subreddit, TriggerContext, TxClientLike } from '@devvit/public-api';
+
+import {
+    buildAnswerDigest,
+    buildRecapComment,
+    createDailyGameSnapshot,
+    customBankMode,
+    DEFAULT_FLAIR_TEXT,
+    DEFAULT_FLAIR_THRESHOLDS,
+    DEFAULT_RECAP_TEMPLATE,
+    extendStreak,
+    firstScheduledDay,
+    FLAIR_TEXT_LIMIT,
+    lintPuzzleBank,
+    liveStreakDays,
+    nextLandingDay,
+    nextStreakFlair,
+    parseFlairThresholds,
+    pickSubredditPuzzle,
+    rankCommunityClues,
+    RECAP_TEMPLATE_FIELDS,
+    resolveStreak,
+    unknownRecapFields,
+    validateCommunityClue,
+    verdictLetters,
+} from '../../../src/core/dailyGameEngine';
+import type { BankLintIssue, DayRecap, HeldFlair, Snapshot, StreakFlairRules } from '../../../src/core/dailyGameEngine';
+import { createGameMachine, furtherBoard, gameReducer } from '../../../src/core/gameReducer';
+import type { GameAction, GameMachineState } from '../../../src/core/gameReducer';
+import {
+    DEFAULT_GAME_RULES,
+    GAME_RULE_LIMITS,
+    gameDayKey,
+    isValidTimeZone,
+    reachedDayHour,
+    resolveGameRules,
+} from '../../../src/core/gameRules';
+import type { PublicPuzzle } from '../../../src/data/publicPuzzleBank';
+import { puzzleBank } from '../../../src/data/puzzleBank';
+import type { Puzzle } from '../../../src/data/puzzleBank';
+import type { CustomBankMode, CustomPuzzleBank } from '../../../src/data/puzzleSchedule';
+import type {
+    ClueVote,
+    DailyGameState,
+    FeedbackMode,
+    GameRules,
+    LeaderboardEntry,
+    LeaderboardResponse,
+    PlayerDailyState,
+    StreakRecord,
+} from '../../../src/types';
+import { BridgeError, isPlayerMethod, toBridgeErrorPayload } from '../../../src/utils/bridgeProtocol';
+import type {
+    BridgeMethod,
+    BridgeParams,
+    BridgeRequest,
+    BridgeResponse,
+    BridgeResult,
+    ClueModAction,
+    CluePayload,
+    ClueQueue,
+    GameVerdict,
+    HostMessage,
+    PlayerMethod,
+    PlayerStatePayload,
+    QueuedClue,
+    SavedProgress,
+    WebviewMessage,
+} from '../../../src/utils/bridgeProtocol';
 
 Devvit.configure({
     redditAPI: true,
     redis: true,
 });
 
+// ─── Subreddit Settings ──────────────────────────────────────────
+Devvit.addSettings([
+    {
+        type: 'select',
+        name: 'feedbackMode',
+        label: 'Guess feedback',
+        helpText: 'Classic shows right/wrong per guess. Letter tiles show Wordle-style per-letter hints.',
+        options: [
+            { label: 'Classic (right / wrong)', value: 'classic' },
+            { label: 'Letter tiles', value: 'letters' },
+        ],
+        defaultValue: ['classic'],
+        scope: 'installation',
+    },
+    {
+        type: 'number',
+        name: 'dailyPostHour',
+        label: 'Daily post time (hour, 0–23, in the puzzle time zone)',
+        helpText: "Today's post is created at the start of this hour. Pause it from the subreddit menu.",
+        defaultValue: 0,
+        scope: 'installation',
+        onValidate: ({ value }) => {
+            if (value === undefined || !Number.isInteger(value) || value < 0 || value > 23) {
+                return 'Enter a whole hour from 0 to 23.';
+            }
+        },
+    },
+    {
+        type: 'boolean',
+        name: 'stickyDailyPost',
+        label: 'Sticky the daily post',
+        helpText: "Stickies each new post and unstickies yesterday's.",
+        defaultValue: false,
+        scope: 'installation',
+    },
+    {
+        type: 'boolean',
+        name: 'requireClueApproval',
+        label: 'Require approval for community clues',
+        helpText: 'New clues stay hidden until a moderator approves them in the clue queue. Turning this off lists the waiting ones.',
+        defaultValue: false,
+        scope: 'installation',
+    },
+    {
+        type: 'number',
+        name: 'maxGuesses',
+        label: `Guesses per puzzle (${GAME_RULE_LIMITS.maxGuesses.min}–${GAME_RULE_LIMITS.maxGuesses.max})`,
+        defaultValue: DEFAULT_GAME_RULES.maxGuesses,
+        scope: 'installation',
+        onValidate: ({ value }) => {
+            const { min, max } = GAME_RULE_LIMITS.maxGuesses;
+            if (value === undefined || !Number.isInteger(value) || value < min || value > max) {
+                return `Enter a whole number from ${min} to ${max}.`;
+            }
+        },
+    },
+    {
+        type: 'number',
+        name: 'hintCost',
+        label: `Points per extra hint (${GAME_RULE_LIMITS.hintCost.min}–${GAME_RULE_LIMITS.hintCost.max})`,
+        defaultValue: DEFAULT_GAME_RULES.hintCost,
+        scope: 'installation',
+        onValidate: ({ value }) => {
+            const { min, max } = GAME_RULE_LIMITS.hintCost;
+            if (value === undefined || !Number.isInteger(value) || value < min || value > max) {
+                return `Enter a whole number from ${min} to ${max}.`;
+            }
+        },
+    },
+    {
+        type: 'boolean',
+        name: 'timerEnabled',
+        label: 'Show the timer and score time',
+        helpText: 'When off, solve time never costs points.',
+        defaultValue: DEFAULT_GAME_RULES.timer,
+        scope: 'installation',
+    },
+    {
+        type: 'number',
+        name: 'resetHour',
+        label: 'Puzzle reset hour (0–23, in the time zone below)',
+        helpText: 'The puzzle day rolls over at the start of this hour.',
+        defaultValue: DEFAULT_GAME_RULES.resetHour,
+        scope: 'installation',
+        onValidate: ({ value }) => {
+            if (value === undefined || !Number.isInteger(value) || value < 0 || value > 23) {
+                return 'Enter a whole hour from 0 to 23.';
+            }
+        },
+    },
+    {
+        type: 'string',
+        name: 'timeZone',
+        label: 'Puzzle time zone',
+        helpText: 'An IANA time zone such as UTC, Europe/Berlin or America/New_York.',
+        defaultValue: DEFAULT_GAME_RULES.timeZone,
+        scope: 'installation',
+        onValidate: ({ value }) => {
+            if (!value || !isValidTimeZone(value.trim())) {
+                return 'Enter an IANA time zone such as America/New_York.';
+            }
+        },
+    },
+    {
+        type: 'boolean',
+        name: 'clueSubmission',
+        label: 'Allow community clue submissions',
+        helpText: 'Existing clues stay visible when this is off.',
+        defaultValue: DEFAULT_GAME_RULES.clueSubmission,
+        scope: 'installation',
+    },
+    {
+        type: 'boolean',
+        name: 'recapComment',
+        label: 'Post an end-of-day recap',
+        helpText: "After the puzzle resets, a stickied comment on yesterday's post sums up how the community did.",
+        defaultValue: true,
+        scope: 'installation',
+    },
+    {
+        type: 'paragraph',
+        name: 'recapTemplate',
+        label: 'Recap comment template',
+        helpText: `Markdown. Placeholders: ${RECAP_TEMPLATE_FIELDS.map((field) => `{${field}}`).join(', ')}. Leave empty for the default.`,
+        defaultValue: DEFAULT_RECAP_TEMPLATE,
+        scope: 'installation',
+        onValidate: ({ value }) => {
+            const unknown = unknownRecapFields(value ?? '');
+            if (unknown.length > 0) {
+                return `Unknown placeholder${unknown.length === 1 ? '' : 's'}: ${unknown.map((field) => `{${field}}`).join(', ')}`;
+            }
+        },
+    },
+    {
+        type: 'boolean',
+        name: 'streakFlair',
+        label: 'Award streak flair',
+        helpText: "Sets a user flair when a player's verified streak reaches a threshold. A flair the player chose themselves is never replaced.",
+        defaultValue: false,
+        scope: 'installation',
+    },
+    {
+        type: 'string',
+        name: 'streakFlairThresholds',
+        label: 'Streak flair thresholds (days)',
+        helpText: 'Comma-separated, e.g. 7, 30, 100, 365.',
+        defaultValue: DEFAULT_FLAIR_THRESHOLDS.join(', '),
+        scope: 'installation',
+        onValidate: ({ value }) => {
+            if (!parseFlairThresholds(value ?? '')) return 'Enter whole numbers of days, separated by commas.';
+        },
+    },
+    {
+        type: 'string',
+        name: 'streakFlairText',
+        label: 'Streak flair text',
+        helpText: '{streak} is the current streak and {tier} the threshold reached.',
+        defaultValue: DEFAULT_FLAIR_TEXT,
+        scope: 'installation',
+        onValidate: ({ value }) => {
+            const text = (value ?? '').trim();
+            if (!text) return 'Enter the flair text.';
+            if (text.length > FLAIR_TEXT_LIMIT) return `Flair text can be at most ${FLAIR_TEXT_LIMIT} characters.`;
+            const unknown = [...text.matchAll(/\{(\w+)\}/g)].map((match) => match[1]).filter((name) => name !== 'streak' && name !== 'tier');
+            if (unknown.length > 0) return `Unknown placeholder: {${unknown[0]}}`;
+        },
+    },
+    {
+        type: 'string',
+        name: 'streakFlairTemplateId',
+        label: 'Streak flair template ID (optional)',
+        helpText: 'A user flair template for the colours; its text is replaced by the text above.',
+        scope: 'installation',
+    },
+    {
+        type: 'select',
+        name: 'streakFlairOnBreak',
+        label: 'When a streak breaks',
+        options: [
+            { label: 'Remove the flair', value: 'remove' },
+            { label: 'Step it down one tier', value: 'downgrade' },
+        ],
+        defaultValue: ['remove'],
+        scope: 'installation',
+    },
+]);
+
+// Settings are read per request, so a change applies from the next message
+async function readGameRules(settings: Devvit.Context['settings']): Promise<GameRules> {
+    const values = await settings.getAll<Record<string, unknown>>();
+    return resolveGameRules({
+        maxGuesses: values.maxGuesses as number | undefined,
+        hintCost: values.hintCost as number | undefined,
+        timer: values.timerEnabled as boolean | undefined,
+        resetHour: values.resetHour as number | undefined,
+        timeZone: values.timeZone as string | undefined,
+        clueSubmission: values.clueSubmission as boolean | undefined,
+    });
+}
+
+// ─── Server-side Game Verification ───────────────────────────────
+// The host keeps its own copy of each player's board and replays the
+// webview's actions through the shared game reducer, so only guesses
+// checked against the server's answer can reach the leaderboard. The board
+// is built from the same hashed bank as the webview so both sides judge
+// guesses identically; the plaintext bank is only used for letter feedback
+// and to reveal the answer once a game is over. Today's key and the rules
+// come from the subreddit settings, so the host and webview agree on both.
+
+function todayKey(rules: GameRules) {
+    return gameDayKey(new Date(), rules);
+}
+
+// For menus, forms and jobs, which have no RPC context to carry the rules
+async function currentDayKey(settings: Devvit.Context['settings']) {
+    return todayKey(await readGameRules(settings));
+}
+
+function shiftDay(dayKey: string, days: number) {
+    const d = new Date(`${dayKey}T00:00:00Z`);
+    d.setUTCDate(d.getUTCDate() + days);
+    return d.toISOString().split('T')[0];
+}
+
+function sessionKey(dayKey: string, username: string) {
+    return `session:${dayKey}:${username}`;
+}
+
+async function plaintextPuzzle(redis: RedisClient, dayKey: string) {
+    return pickSubredditPuzzle(new Date(`${dayKey}T12:00:00Z`), await readCustomBank(redis), puzzleBank).puzzle;
+}
+
+async function buildServerGame(
+    redis: RedisClient,
+    dayKey: string,
+    rules: GameRules,
+    playerState: PlayerDailyState
+): Promise<DailyGameState> {
+    const custom = publicCustomBank(await readCustomBank(redis), dayKey);
+    const daily = pickSubredditPuzzle(new Date(`${dayKey}T12:00:00Z`), custom);
+    return {
+        dayKey,
+        puzzle: { ...daily.puzzle, nearMissPolicy: daily.puzzle.nearMissPolicy ?? 'free', createdAt: new Date() },
+        feedbackMode: 'classic',
+        rules,
+        isArchive: false,
+        playerState,
+        communityClues: [],
+        timestamp: new Date(),
+    };
+}
+
+// A streak continues only from a verified solve on the previous day
+async function previousStreak(redis: RedisClient, dayKey: string, username: string): Promise<number> {
+    const raw = await redis.hGet(`results:${shiftDay(dayKey, -1)}`, username);
+    if (!raw) return 0;
+    try {
+        return Number(JSON.parse(raw).streak || 0);
+    } catch {
+        return 0;
+    }
+}
+
+async function loadSession(redis: RedisClient, dayKey: string, rules: GameRules, username: string): Promise<GameMachineState> {
+    const raw = await redis.get(sessionKey(dayKey, username));
+    if (!raw) {
+        // The clock starts on the first message of the day, and the streak
+        // bonus uses the streak verified before today.
+        return createGameMachine(await buildServerGame(redis, dayKey, rules, {
+            guesses: [],
+            hintsUnlocked: 1,
+            score: 0,
+            completed: false,
+            timeStarted: new Date(),
+            streak: await previousStreak(redis, dayKey, username),
+            hardMode: false,
+        }));
+    }
+
+    const saved = JSON.parse(raw) as PlayerDailyState;
+    return createGameMachine(await buildServerGame(redis, dayKey, rules, {
+        ...saved,
+        timeStarted: new Date(saved.timeStarted),
+        timeCompleted: saved.timeCompleted ? new Date(saved.timeCompleted) : undefined,
+    }));
+}
+
+// Queued inside the transaction that watched the session; see updateSession
+async function saveSession(txn: TxClientLike, dayKey: string, username: string, state: GameMachineState) {
+    await txn.set(sessionKey(dayKey, username), JSON.stringify(state.game.playerState));
+    // Sessions are only needed until the day's leaderboard closes
+    await txn.expire(sessionKey(dayKey, username), 2 * 24 * 60 * 60);
+}
+
+// False when a watched key changed before the transaction ran
+async function commitTransaction(txn: TxClientLike): Promise<boolean> {
+    try {
+        const results = await txn.exec();
+        return Array.isArray(results) && results.length > 0;
+    } catch (error) {
+        console.warn('Redis transaction aborted:', error);
+        return false;
+    }
+}
+
+const SESSION_WRITE_ATTEMPTS = 3;
+
+// Loads, reduces and saves the session as one transaction. Two calls sent
+// together would otherwise both start from the same board, so a player could
+// go past the guess limit and a solve could be recorded twice. The call that
+// loses the race starts over from the winner's board.
+async function updateSession(
+    ctx: PlayerContext,
+    dayKey: string,
+    toAction: (prev: GameMachineState) => GameAction | null
+): Promise<{ prev: GameMachineState; next: GameMachineState; accepted: boolean }> {
+    for (let attempt = 0; attempt < SESSION_WRITE_ATTEMPTS; attempt++) {
+        const txn = await ctx.redis.watch(sessionKey(dayKey, ctx.username));
+        const prev = await loadSession(ctx.redis, dayKey, ctx.rules, ctx.username);
+        const action = toAction(prev);
+        const next = action ? gameReducer(prev, action) : prev;
+        const accepted = next.game !== prev.game;
+        // A refused action leaves the board as it was; startGame still saves the new session
+        if (!accepted && action) {
+            await txn.unwatch();
+            return { prev, next, accepted };
+        }
+        await txn.multi();
+        await saveSession(txn, dayKey, ctx.username, next);
+        if (await commitTransaction(txn)) return { prev, next, accepted };
+    }
+    throw new BridgeError('INTERNAL', 'Your game changed while saving this move. Try again.');
+}
+
+// Hard mode is ranked separately
+function leaderboardKey(dayKey: string, hardMode: boolean) {
+    return hardMode ? `leaderboard:${dayKey}:hard` : `leaderboard:${dayKey}`;
+}
+
+// Returns the verified streak after this solve
+async function recordVerifiedSolve(
+    redis: RedisClient,
+    dayKey: string,
+    username: string,
+    state: GameMachineState
+): Promise<StreakRecord> {
+    const { playerState } = state.game;
+    const completedAt = playerState.timeCompleted ?? new Date();
+
+    await redis.zAdd(leaderboardKey(dayKey, playerState.hardMode), { member: username, score: playerState.score });
+
+    // Running totals for the post preview, so it never has to scan the results
+    await redis.hIncrBy(`stats:${dayKey}`, 'solves', 1);
+    await redis.hIncrBy(`stats:${dayKey}`, 'scoreTotal', playerState.score);
+
+    // Keep the itemized result so a score can be audited later
+    await redis.hSet(`results:${dayKey}`, {
+        [username]: JSON.stringify({
+            score: playerState.score,
+            guesses: playerState.guesses.length,
+            time: Math.max(0, Math.round((completedAt.getTime() - playerState.timeStarted.getTime()) / 1000)),
+            streak: playerState.streak,
+            hardMode: playerState.hardMode,
+            breakdown: playerState.scoreBreakdown ?? null,
+        }),
+    });
+
+    return recordStreakSolve(redis, username, dayKey, playerState.streak);
+}
+
+// ─── Custom Puzzle Banks ─────────────────────────────────────────
+// Moderators can add their own puzzles from a form in the subreddit menu.
+// Each one is linted against the rest of the bank (and the default answers),
+// stored in Redis and pinned to the next free landing day, so a published
+// day never changes. The mode ledger (see CustomPuzzleBank) decides what the
+// days in between play; a mode change takes effect from tomorrow.
+
+const CUSTOM_PUZZLES_KEY = 'custom-puzzles';
+const CUSTOM_MODES_KEY = 'custom-puzzles:modes';
+const CUSTOM_NEXT_ID_KEY = 'custom-puzzles:next-id';
+// The claim only has to outlive a concurrent add; after that the bank holds the day
+const LANDING_CLAIM_TTL_SECONDS = 24 * 60 * 60;
+const LANDING_CLAIM_ATTEMPTS = 10;
+const PUZZLE_LOG_KEY = 'modlog:puzzles';
+const PUZZLE_LOG_LIMIT = 500;
+// Default answers stay reserved, so switching back to merge never repeats one
+const DEFAULT_ANSWERS = puzzleBank.flatMap((puzzle) => [puzzle.answer, ...(puzzle.acceptedAnswers ?? [])]);
+
+type CustomPuzzle = Puzzle & { landsOn: string };
+
+/** What a moderator fills in; everything else is derived */
+type CustomPuzzleInput = Pick<Puzzle, 'answer' | 'title' | 'category' | 'hints' | 'subredditTags'>;
+
+async function readCustomBank(redis: RedisClient): Promise<CustomPuzzleBank<Puzzle>> {
+    const [stored, modes] = await Promise.all([redis.hGetAll(CUSTOM_PUZZLES_KEY), redis.get(CUSTOM_MODES_KEY)]);
+    const puzzles: CustomPuzzle[] = [];
+    for (const raw of Object.values(stored ?? {})) {
+        try {
+            puzzles.push(JSON.parse(raw) as CustomPuzzle);
+        } catch {
+            // An unreadable entry never reaches the schedule
+        }
+    }
+    return {
+        modes: modes ? (JSON.parse(modes) as CustomPuzzleBank<Puzzle>['modes']) : [],
+        puzzles: puzzles.sort((a, b) => a.landsOn.localeCompare(b.landsOn)),
+    };
+}
+
+// The webview gets the puzzles that have landed, hashed like publicPuzzleBank;
+// later ones stay on the host
+function publicCustomBank(bank: CustomPuzzleBank<Puzzle>, dayKey: string): CustomPuzzleBank<PublicPuzzle> {
+    return {
+        modes: bank.modes,
+        puzzles: bank.puzzles
+            .filter((puzzle) => puzzle.landsOn <= dayKey)
+            .map(({ answer, acceptedAnswers, nearMisses, ...rest }) => ({
+                ...rest,
+                digest: buildAnswerDigest({ id: rest.id, answer, acceptedAnswers, nearMisses }),
+            })),
+    };
+}
+
+// Form input is tidied into the bank's format before it is linted
+function normalizeCustomPuzzle(input: CustomPuzzleInput): CustomPuzzleInput {
+    return {
+        answer: input.answer.trim().toLowerCase(),
+        title: input.title.trim(),
+        category: input.category.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, ''),
+        hints: input.hints.map((hint) => hint.trim()),
+        subredditTags: input.subredditTags
+            .map((tag) => tag.trim().replace(/^\/?r\//i, ''))
+            .filter(Boolean)
+            .map((tag) => `r/${tag}`),
+    };
+}
+
+// Two moderators adding at once would otherwise both get the same day. Like
+// the daily post, the first to increment a day's key owns it; the other moves
+// on to the next landing day after it.
+async function claimLandingDay(redis: RedisClient, bank: CustomPuzzleBank<Puzzle>, today: string, day: string) {
+    const landed: CustomPuzzleBank<unknown> = { modes: bank.modes, puzzles: [...bank.puzzles] };
+    for (let attempt = 0; attempt < LANDING_CLAIM_ATTEMPTS; attempt++) {
+        const key = `${CUSTOM_PUZZLES_KEY}:landing:${day}`;
+        const claims = await redis.incrBy(key, 1);
+        await redis.expire(key, LANDING_CLAIM_TTL_SECONDS);
+        if (claims === 1) return day;
+        landed.puzzles.push({ landsOn: day });
+        day = nextLandingDay(landed, today);
+    }
+    throw new Error(`No free landing day after ${day}`);
+}
+
+async function addCustomPuzzle(
+    redis: RedisClient,
+    today: string,
+    input: CustomPuzzleInput,
+    createdBy: string
+): Promise<{ puzzle: CustomPuzzle | null; issues: BankLintIssue[] }> {
+    const bank = await readCustomBank(redis);
+    const id = `c${String(await redis.incrBy(CUSTOM_NEXT_ID_KEY, 1)).padStart(3, '0')}`;
+    const puzzle: CustomPuzzle = {
+        id,
+        ...normalizeCustomPuzzle(input),
+        difficulty: 0.5,
+        landsOn: nextLandingDay(bank, today),
+    };
+
+    const issues = lintPuzzleBank([...bank.puzzles, puzzle], DEFAULT_ANSWERS).filter((issue) => issue.puzzleId === id);
+    if (issues.length > 0) return { puzzle: null, issues };
+
+    puzzle.landsOn = await claimLandingDay(redis, bank, today, puzzle.landsOn);
+    await redis.hSet(CUSTOM_PUZZLES_KEY, { [id]: JSON.stringify(puzzle) });
+    const at = Date.now();
+    await redis.zAdd(PUZZLE_LOG_KEY, {
+        member: JSON.stringify({ puzzleId: id, landsOn: puzzle.landsOn, createdBy, at: new Date(at).toISOString() }),
+        score: at,
+    });
+    await redis.zRemRangeByRank(PUZZLE_LOG_KEY, 0, -(PUZZLE_LOG_LIMIT + 1));
+    return { puzzle, issues };
+}
+
+// Returns false when the mode in effect tomorrow is already `mode`
+async function setCustomBankMode(redis: RedisClient, today: string, mode: CustomBankMode) {
+    const bank = await readCustomBank(redis);
+    const tomorrow = shiftDay(today, 1);
+    if (customBankMode(tomorrow, bank) === mode) return false;
+
+    // Versions for days that haven't been published yet can still be replaced
+    const modes = [...bank.modes.filter((version) => version.effectiveFrom < tomorrow), { effectiveFrom: tomorrow, mode }];
+    await redis.set(CUSTOM_MODES_KEY, JSON.stringify(modes));
+    return true;
+}
+
+// The text of the schedule preview form: every custom puzzle still to land
+function describeCustomSchedule(bank: CustomPuzzleBank<Puzzle>, today: string): string {
+    const tomorrow = shiftDay(today, 1);
+    const lines = [
+        customBankMode(tomorrow, bank) === 'replace'
+            ? 'From tomorrow, days without a custom puzzle replay one that has already landed.'
+            : 'From tomorrow, days without a custom puzzle play the default schedule.',
+        '',
+    ];
+
+    const upcoming = bank.puzzles.filter((puzzle) => puzzle.landsOn >= today);
+    if (upcoming.length === 0) lines.push('No custom puzzles are waiting to land.');
+    for (const puzzle of upcoming) {
+        lines.push(`${puzzle.landsOn}${puzzle.landsOn === today ? ' (today)' : ''} · ${puzzle.id} · ${puzzle.title} — ${puzzle.answer}`);
+    }
+    lines.push('', `A puzzle added now lands on ${nextLandingDay(bank, today)}.`);
+
+    // Only possible if the default bank has since taken one of the answers
+    for (const issue of lintPuzzleBank(bank.puzzles, DEFAULT_ANSWERS)) {
+        lines.push(`⚠️ ${issue.puzzleId}: ${issue.message}`);
+    }
+    return lines.join('\n');
+}
+
+// ─── Post Preview ────────────────────────────────────────────────
+// The feed shows today's snapshot (title, category, tags and the free first
+// hint — never the answer) with live solve counts, so players know what the
+// puzzle is about before opening the webview.
+
+const PREVIEW_REFRESH_MS = 30_000;
+
+type DailyStats = { solves: number; averageScore: number };
+
+// The subreddit's custom bank may pick the day's puzzle
+async function readSnapshot(redis: RedisClient, dayKey: string): Promise<Snapshot> {
+    const custom = publicCustomBank(await readCustomBank(redis), dayKey);
+    return createDailyGameSnapshot(new Date(`${dayKey}T12:00:00Z`), custom);
+}
+
+async function readDailyStats(redis: RedisClient, dayKey: string): Promise<DailyStats> {
+    const stats = await redis.hGetAll(`stats:${dayKey}`);
+    const solves = Number(stats.solves || 0);
+    return { solves, averageScore: solves > 0 ? Math.round(Number(stats.scoreTotal || 0) / solves) : 0 };
+}
+
+type DailyPreviewProps = { snapshot: Snapshot; stats?: DailyStats | null; footer?: JSX.Element };
+
+const DailyPreview: Devvit.BlockComponent<DailyPreviewProps> = ({ snapshot, stats, footer }) => (
+    <vstack height="100%" width="100%" alignment="center middle" gap="small" padding="medium" backgroundColor="#F0F4FF">
+        <text size="small" weight="bold" color="#FF4500">
+            🧩 THREADPULSE DAILY · {snapshot.dayKey}
+        </text>
+        <text size="xxlarge" weight="bold" color="#1A1A1B" alignment="center" wrap>
+            {snapshot.title}
+        </text>
+        <hstack gap="small" alignment="center middle">
+            <hstack backgroundColor="#FF4500" cornerRadius="full" padding="xsmall">
+                <text size="xsmall" weight="bold" color="#FFFFFF">
+                    {` ${snapshot.category.toUpperCase()} `}
+                </text>
+            </hstack>
+            <text size="small" color="#666666">
+                {snapshot.subredditTags.map((tag) => `r/${tag.replace(/^r\//, '')}`).join(' · ')}
+            </text>
+        </hstack>
+        <spacer size="small" />
+        <vstack backgroundColor="#FFFFFF" cornerRadius="medium" padding="medium" width="90%">
+            <text size="small" weight="bold" color="#878A8C">
+                💡 FIRST HINT
+            </text>
+            <text size="medium" color="#1A1A1B" wrap>
+                {snapshot.publicHint}
+            </text>
+        </vstack>
+        <text size="small" color="#666666">
+            {!stats
+                ? ' '
+                : stats.solves === 0
+                    ? 'No solves yet — be the first!'
+                    : `✅ ${stats.solves} ${stats.solves === 1 ? 'solve' : 'solves'} · ⭐ avg score ${stats.averageScore}`}
+        </text>
+        {footer ?? <spacer size="xsmall" />}
+    </vstack>
+);
+
+// ─── Leaderboard ─────────────────────────────────────────────────
+// Boards are Redis sorted sets ranked by verified score; the solve time
+// comes from the result recorded next to it.
+
+const LEADERBOARD_PAGE_SIZE = 10;
+
+// 1-based position counting from the highest score
+async function boardRank(redis: RedisClient, key: string, total: number, username: string) {
+    const rank = await redis.zRank(key, username);
+    return rank === undefined ? undefined : total - rank;
+}
+
+async function solveTime(redis: RedisClient, dayKey: string, username: string) {
+    const raw = await redis.hGet(`results:${dayKey}`, username);
+    if (!raw) return 0;
+    try {
+        return Number(JSON.parse(raw).time || 0);
+    } catch {
+        return 0;
+    }
+}
+
+async function readLeaderboard(
+    redis: RedisClient,
+    dayKey: string,
+    hardMode: boolean,
+    page: number,
+    username: string | null
+): Promise<LeaderboardResponse> {
+    const key = leaderboardKey(dayKey, hardMode);
+    const yesterdayKey = leaderboardKey(shiftDay(dayKey, -1), hardMode);
+    const [totalPlayers, yesterdayTotal] = await Promise.all([redis.zCard(key), redis.zCard(yesterdayKey)]);
+
+    const buildEntry = async (member: string, score: number, rank: number): Promise<LeaderboardEntry> => {
+        const previous = await boardRank(redis, yesterdayKey, yesterdayTotal, member);
+        return {
+            player: { id: member, username: member },
+            score,
+            time: await solveTime(redis, dayKey, member),
+            rank,
+            change: previous === undefined ? 0 : previous - rank,
+        };
+    };
+
+    const lastPage = Math.max(0, Math.ceil(totalPlayers / LEADERBOARD_PAGE_SIZE) - 1);
+    const current = Math.min(Math.max(0, page), lastPage);
+    const start = current * LEADERBOARD_PAGE_SIZE;
+    const rows = await redis.zRange(key, start, start + LEADERBOARD_PAGE_SIZE - 1, { by: 'rank', reverse: true });
+    const entries = await Promise.all(rows.map((row, i) => buildEntry(row.member, row.score, start + i + 1)));
+
+    const playerRank = username === null ? undefined : await boardRank(redis, key, totalPlayers, username);
+    const playerScore = playerRank === undefined ? undefined : await redis.zScore(key, username!);
+
+    return {
+        dayKey,
+        hardMode,
+        page: current,
+        pageSize: LEADERBOARD_PAGE_SIZE,
+        entries,
+        ...(playerRank !== undefined && playerScore !== undefined
+            ? { playerRank, playerEntry: await buildEntry(username!, playerScore, playerRank) }
+            : {}),
+        totalPlayers,
+        lastUpdated: new Date(),
+    };
+}
+
+// ─── Community Clues ─────────────────────────────────────────────
+// Each listed clue is indexed per day in a sorted set scored like
+// rankCommunityClues (net votes plus three per mod boost), so the top clues
+// are one range read away. Votes are kept per clue, one per user, so a vote
+// can be changed or withdrawn. A player has one clue per day: its id is
+// derived from the author, and the hash stays behind if a mod removes it.
+
+const CLUE_LIST_LIMIT = 5;
+const CLUE_BOOST_WEIGHT = 3;
+// The index is read a little deeper than the list so that ties on score can
+// still be broken by age, and invalid clues filtered out, before the cut
+const CLUE_CANDIDATES = 20;
+
+function clueIndexKey(dayKey: string) {
+    return `clues:${dayKey}`;
+}
+
+function clueVotesKey(clueId: string) {
+    return `clue-votes:${clueId}`;
+}
+
+function clueIdFor(dayKey: string, username: string) {
+    return `clue:${dayKey}:${username}`;
+}
+
+async function readRequireApproval(settings: RpcContext['settings']) {
+    return Boolean(await settings.get<boolean>('requireClueApproval'));
+}
+
+// Removed clues read as missing
+async function readClue(redis: RedisClient, clueId: string, username: string | null): Promise<CluePayload | null> {
+    const [fields, vote] = await Promise.all([
+        redis.hGetAll(clueId),
+        username === null ? undefined : redis.hGet(clueVotesKey(clueId), username),
+    ]);
+    if (!fields?.text || fields.removed === 'true') return null;
+    return {
+        id: clueId,
+        text: fields.text,
+        author: fields.author ?? '',
+        upvotes: Number(fields.upvotes || 0),
+        modBoost: Number(fields.modBoost || 0),
+        // Clues aren't analysed on the host; these are neutral placeholders
+        aiAnalysis: {
+            sentiment: 0,
+            creativity: 0.5,
+            difficulty: 0.5,
+            engagement_prediction: 0.5,
+            toxicity_score: 0,
+            quality_score: 0.5,
+        },
+        createdAt: fields.createdAt ?? new Date(0).toISOString(),
+        approved: fields.approved !== 'false',
+        myVote: (Number(vote) || 0) as ClueVote,
+    };
+}
+
+// Ranked with the same rules as the webview. The player's own clue is always
+// included, even while it waits for approval, so they can see its status.
+async function readClues(
+    redis: RedisClient,
+    dayKey: string,
+    username: string | null,
+    requireApproval: boolean
+): Promise<CluePayload[]> {
+    const top = await redis.zRange(clueIndexKey(dayKey), 0, CLUE_CANDIDATES - 1, { by: 'rank', reverse: true });
+    const ids = top.map((item) => item.member);
+    const ownId = username === null ? null : clueIdFor(dayKey, username);
+    if (ownId && !ids.includes(ownId)) ids.push(ownId);
+
+    const clues = (await Promise.all(ids.map((id) => readClue(redis, id, username)))).filter(
+        (clue): clue is CluePayload => clue !== null
+    );
+    const ranked = rankCommunityClues(
+        clues.map((clue) => ({ ...clue, createdAt: new Date(clue.createdAt) })),
+        CLUE_LIST_LIMIT,
+        { requireApproval }
+    ).map((clue) => clues.find((item) => item.id === clue.id)!);
+    const own = clues.find((clue) => clue.id === ownId);
+    return own && !ranked.includes(own) ? [...ranked, own] : ranked;
+}
+
+// Every clue of the day that is listed or waiting for approval, not just the
+// ranked few that readClues returns, so a copy of any of them is caught
+async function readClueTexts(redis: RedisClient, dayKey: string): Promise<string[]> {
+    const [listed, pending] = await Promise.all([
+        redis.zRange(clueIndexKey(dayKey), 0, -1, { by: 'rank' }),
+        redis.zRange(cluePendingKey(dayKey), 0, -1, { by: 'rank' }),
+    ]);
+    const texts = await Promise.all([...listed, ...pending].map((item) => redis.hGet(item.member, 'text')));
+    return texts.filter((text): text is string => Boolean(text));
+}
+
+async function createClue(ctx: PlayerContext, dayKey: string, text: string): Promise<CluePayload> {
+    const { redis, username } = ctx;
+    if (!ctx.rules.clueSubmission) {
+        throw new BridgeError('NOT_ALLOWED', 'Clue submission is turned off in this subreddit.');
+    }
+    if (await redis.hGet(CLUE_BANS_KEY, username)) {
+        throw new BridgeError('NOT_ALLOWED', 'The moderators have turned off clue submission for your account.');
+    }
+    const clueId = clueIdFor(dayKey, username);
+    if (await redis.hGet(clueId, 'text')) {
+        throw new BridgeError('NOT_ALLOWED', 'You already submitted a clue for today.');
+    }
+
+    const requireApproval = await readRequireApproval(ctx.settings);
+    const puzzle = await plaintextPuzzle(redis, dayKey);
+    const validation = validateCommunityClue(text, {
+        forbiddenWords: [puzzle.answer, ...(puzzle.acceptedAnswers ?? [])],
+        existingClues: await readClueTexts(redis, dayKey),
+    });
+    if (!validation.valid) throw new BridgeError('NOT_ALLOWED', validation.reason || 'Invalid clue.');
+
+    // Like a Reddit comment, a clue starts with its author's upvote
+    await redis.hSet(clueId, {
+        text: text.trim(),
+        author: username,
+        upvotes: '1',
+        modBoost: '0',
+        createdAt: new Date().toISOString(),
+        approved: requireApproval ? 'false' : 'true',
+    });
+    await redis.hSet(clueVotesKey(clueId), { [username]: '1' });
+    // A clue awaiting approval is only listed once a mod approves it
+    if (requireApproval) await redis.zAdd(cluePendingKey(dayKey), { member: clueId, score: Date.now() });
+    else await redis.zAdd(clueIndexKey(dayKey), { member: clueId, score: 1 });
+    return (await readClue(redis, clueId, username))!;
+}
+
+async function voteOnClue(redis: RedisClient, dayKey: string, clueId: string, username: string, vote: ClueVote) {
+    if ((await redis.zScore(clueIndexKey(dayKey), clueId)) === undefined) {
+        throw new BridgeError('NOT_FOUND', 'That clue no longer exists.');
+    }
+
+    const previous = Number(await redis.hGet(clueVotesKey(clueId), username)) || 0;
+    const delta = vote - previous;
+    if (delta !== 0) {
+        await redis.hIncrBy(clueId, 'upvotes', delta);
+        await redis.zIncrBy(clueIndexKey(dayKey), clueId, delta);
+        if (vote === 0) await redis.hDel(clueVotesKey(clueId), [username]);
+        else await redis.hSet(clueVotesKey(clueId), { [username]: String(vote) });
+    }
+    return (await readClue(redis, clueId, username))!;
+}
+
+// ─── Clue Moderation ─────────────────────────────────────────────
+// Moderators with the Posts (or Everything) permission work today's queue
+// from a panel in the webview: clues awaiting approval and clues players
+// reported. Every action is checked on the server and logged.
+//
+// - approve: list the clue and clear its reports
+// - boost:   approve, then rank it as if it had CLUE_BOOST_WEIGHT more votes
+// - remove:  unlist the clue; its author still can't post another that day
+// - ban:     remove, and stop the author submitting clues in this subreddit
+
+const CLUE_BANS_KEY = 'clue-bans';
+const CLUE_LOG_KEY = 'modlog:clues';
+const CLUE_LOG_LIMIT = 500;
+const CLUE_QUEUE_LIMIT = 50;
+
+function cluePendingKey(dayKey: string) {
+    return `clues:${dayKey}:pending`;
+}
+
+function clueReportedKey(dayKey: string) {
+    return `clues:${dayKey}:reported`;
+}
+
+function clueReportsKey(clueId: string) {
+    return `clue-reports:${clueId}`;
+}
+
+async function requireClueModerator(ctx: RpcContext): Promise<PlayerContext> {
+    const subreddit = await ctx.reddit.getCurrentSubreddit();
+    if (ctx.username === null || !(await canModerateClues(ctx, subreddit.name, ctx.username))) {
+        throw new BridgeError('NOT_ALLOWED', 'You need the Posts moderator permission to review clues.');
+    }
+    return { ...ctx, username: ctx.username };
+}
+
+// One report per player; only listed clues can be reported
+async function reportClue(redis: RedisClient, dayKey: string, clueId: string, username: string) {
+    if ((await redis.zScore(clueIndexKey(dayKey), clueId)) === undefined) {
+        throw new BridgeError('NOT_FOUND', 'That clue no longer exists.');
+    }
+    if (clueId === clueIdFor(dayKey, username)) {
+        throw new BridgeError('NOT_ALLOWED', "You can't report your own clue.");
+    }
+    if (!(await redis.hGet(clueReportsKey(clueId), username))) {
+        await redis.hSet(clueReportsKey(clueId), { [username]: new Date().toISOString() });
+        await redis.zIncrBy(clueReportedKey(dayKey), clueId, 1);
+    }
+    return { reported: true };
+}
+
+async function readQueuedClues(redis: RedisClient, key: string, username: string | null, reverse: boolean): Promise<QueuedClue[]> {
+    const members = await redis.zRange(key, 0, CLUE_QUEUE_LIMIT - 1, { by: 'rank', reverse });
+    const clues = await Promise.all(
+        members.map(async (item) => {
+            const clue = await readClue(redis, item.member, username);
+            return clue ? { ...clue, reports: await redis.hLen(clueReportsKey(item.member)) } : null;
+        })
+    );
+    return clues.filter((clue): clue is QueuedClue => clue !== null);
+}
+
+async function readClueQueue(ctx: RpcContext): Promise<ClueQueue> {
+    const dayKey = ctx.today;
+    const requireApproval = await readRequireApproval(ctx.settings);
+    if (!requireApproval) await releasePendingClues(ctx.redis, dayKey);
+    const [pending, reported] = await Promise.all([
+        // Oldest first, so nothing waits forever
+        readQueuedClues(ctx.redis, cluePendingKey(dayKey), ctx.username, false),
+        // Most reported first
+        readQueuedClues(ctx.redis, clueReportedKey(dayKey), ctx.username, true),
+    ]);
+    return { dayKey, requireApproval, pending, reported };
+}
+
+// Reviewed clues leave the reported list
+async function clearReports(redis: RedisClient, dayKey: string, clueId: string) {
+    await redis.zRem(clueReportedKey(dayKey), [clueId]);
+    await redis.del(clueReportsKey(clueId));
+}
+
+async function approveClue(redis: RedisClient, dayKey: string, clueId: string) {
+    const fields = await redis.hGetAll(clueId);
+    await redis.hSet(clueId, { approved: 'true' });
+    await redis.zRem(cluePendingKey(dayKey), [clueId]);
+    if ((await redis.zScore(clueIndexKey(dayKey), clueId)) === undefined) {
+        const score = Number(fields.upvotes || 0) + Number(fields.modBoost || 0) * CLUE_BOOST_WEIGHT;
+        await redis.zAdd(clueIndexKey(dayKey), { member: clueId, score });
+    }
+    await clearReports(redis, dayKey, clueId);
+}
+
+// Once approval is turned off, clues still waiting for it are listed as if
+// approved, so none stay hidden with no queue left to clear them. Only the
+// player and moderator requests call this; the recap job just reads.
+async function releasePendingClues(redis: RedisClient, dayKey: string) {
+    const pending = await redis.zRange(cluePendingKey(dayKey), 0, -1, { by: 'rank' });
+    for (const item of pending) await approveClue(redis, dayKey, item.member);
+}
+
+async function removeClue(redis: RedisClient, dayKey: string, clueId: string) {
+    await redis.hSet(clueId, { removed: 'true' });
+    await redis.zRem(clueIndexKey(dayKey), [clueId]);
+    await redis.zRem(cluePendingKey(dayKey), [clueId]);
+    await clearReports(redis, dayKey, clueId);
+}
+
+// Audit trail of clue moderation, newest last
+async function recordClueAction(redis: RedisClient, entry: Record<string, string>) {
+    const at = Date.now();
+    await redis.zAdd(CLUE_LOG_KEY, { member: JSON.stringify({ ...entry, at: new Date(at).toISOString() }), score: at });
+    await redis.zRemRangeByRank(CLUE_LOG_KEY, 0, -(CLUE_LOG_LIMIT + 1));
+}
+
+async function moderateClue(ctx: PlayerContext, dayKey: string, clueId: string, action: ClueModAction) {
+    const { redis } = ctx;
+    const fields = clueId.startsWith(`clue:${dayKey}:`) ? await redis.hGetAll(clueId) : {};
+    const author = fields.author;
+    if (!author || fields.removed === 'true') {
+        throw new BridgeError('NOT_FOUND', 'That clue no longer exists.');
+    }
+
+    if (action === 'approve') {
+        await approveClue(redis, dayKey, clueId);
+    } else if (action === 'boost') {
+        await approveClue(redis, dayKey, clueId);
+        await redis.hIncrBy(clueId, 'modBoost', 1);
+        await redis.zIncrBy(clueIndexKey(dayKey), clueId, CLUE_BOOST_WEIGHT);
+    } else if (action === 'remove') {
+        await removeClue(redis, dayKey, clueId);
+    } else {
+        await removeClue(redis, dayKey, clueId);
+        await redis.hSet(CLUE_BANS_KEY, {
+            [author]: JSON.stringify({ by: ctx.username, clueId, at: new Date().toISOString() }),
+        });
+    }
+
+    await recordClueAction(redis, { dayKey, clueId, action, author, moderator: ctx.username });
+    return readClueQueue(ctx);
+}
+
+type ClueBan = { by: string; clueId: string; at: string };
+
+async function readClueBans(redis: RedisClient): Promise<Record<string, ClueBan>> {
+    const bans: Record<string, ClueBan> = {};
+    for (const [author, raw] of Object.entries((await redis.hGetAll(CLUE_BANS_KEY)) ?? {})) {
+        try {
+            bans[author] = JSON.parse(raw) as ClueBan;
+        } catch {
+            bans[author] = { by: 'unknown', clueId: '', at: '' };
+        }
+    }
+    return bans;
+}
+
+// Lets the authors submit clues again; each unban is logged like the ban was
+async function unbanClueAuthors(redis: RedisClient, authors: string[], moderator: string) {
+    const bans = await readClueBans(redis);
+    const banned = authors.filter((author) => author in bans);
+    if (banned.length === 0) return 0;
+    await redis.hDel(CLUE_BANS_KEY, banned);
+    for (const author of banned) {
+        await recordClueAction(redis, { clueId: bans[author].clueId, action: 'unban', author, moderator });
+    }
+    return banned.length;
+}
+
+// ─── Player Sync ─────────────────────────────────────────────────
+// Streaks and saved boards are kept per Reddit user, so they follow the
+// player from device to device. The webview keeps its localStorage copy as
+// an offline cache and reconciles it with these on every handshake. The
+// streak bonus on the leaderboard still comes from verified results only.
+// Streaks offered by a device are kept apart from the verified streak, so
+// nothing a client sends can change what verified solves have recorded.
+
+const DAY_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Boards older than this are dropped, matching the archive calendar
+const PROGRESS_RETENTION_DAYS = 365;
+
+// Written only by verified solves
+function streakKey(username: string) {
+    return `streak:${username}`;
+}
+
+// Written only by syncStreak, from devices
+function deviceStreakKey(username: string) {
+    return `streak:${username}:device`;
+}
+
+function progressKey(username: string) {
+    return `progress:${username}`;
+}
+
+// Checks a streak from Redis or the webview; null when there is none or it
+// can't be right. No streak is longer than the puzzle has existed.
+function parseStreak(value: unknown): StreakRecord | null {
+    const raw = value as Partial<StreakRecord> | null;
+    const lastSolvedDay = raw?.lastSolvedDay;
+    const streakDays = Number(raw?.streakDays);
+    if (typeof lastSolvedDay !== 'string' || !DAY_KEY_PATTERN.test(lastSolvedDay)) return null;
+    if (!Number.isInteger(streakDays) || streakDays < 1) return null;
+    const maxDays = Math.round((Date.parse(lastSolvedDay) - Date.parse(firstScheduledDay())) / DAY_MS) + 1;
+    return streakDays <= maxDays ? { lastSolvedDay, streakDays } : null;
+}
+
+async function readStreak(redis: RedisClient, key: string): Promise<StreakRecord | null> {
+    const raw = await redis.get(key);
+    if (!raw) return null;
+    try {
+        return parseStreak(JSON.parse(raw));
+    } catch {
+        return null;
+    }
+}
+
+// A verified solve extends the stored streak, or replaces it when the
+// solve's own streak (from yesterday's verified result) is greater
+async function recordStreakSolve(redis: RedisClient, username: string, dayKey: string, verifiedDays: number) {
+    const stored = await readStreak(redis, streakKey(username));
+    const next = resolveStreak(extendStreak(stored, dayKey), { lastSolvedDay: dayKey, streakDays: verifiedDays }, dayKey);
+    await redis.set(streakKey(username), JSON.stringify(next));
+    return next;
+}
+
+// The streak every device adopts: the verified one, or the devices' own
+// when that is greater
+async function readSyncedStreak(redis: RedisClient, today: string, username: string): Promise<StreakRecord> {
+    const [verified, device] = await Promise.all([
+        readStreak(redis, streakKey(username)),
+        readStreak(redis, deviceStreakKey(username)),
+    ]);
+    return resolveStreak(device, verified, today);
+}
+
+// The device streak is only replaced by a greater live one
+async function reconcileStreak(
+    redis: RedisClient,
+    today: string,
+    username: string,
+    offered: StreakRecord | null
+): Promise<StreakRecord> {
+    const stored = await readStreak(redis, deviceStreakKey(username));
+    const next = resolveStreak(stored, offered, today);
+    if (next !== stored && next.lastSolvedDay) await redis.set(deviceStreakKey(username), JSON.stringify(next));
+    return readSyncedStreak(redis, today, username);
+}
+
+function parseSavedProgress(value: unknown): SavedProgress | null {
+    const raw = value as Partial<SavedProgress> | null;
+    const board = raw?.playerState;
+    if (typeof raw?.puzzleId !== 'string' || !board || typeof board.timeStarted !== 'string') return null;
+    // Bounded by the highest setting, so lowering it never drops saved boards
+    if (!Array.isArray(board.guesses) || board.guesses.length > GAME_RULE_LIMITS.maxGuesses.max) return null;
+    return {
+        puzzleId: raw.puzzleId,
+        savedAt: typeof raw.savedAt === 'string' ? raw.savedAt : new Date(0).toISOString(),
+        ...(raw.archive ? { archive: true } : {}),
+        playerState: board,
+    };
+}
+
+// Reads every saved board, dropping the ones past retention
+async function readProgress(redis: RedisClient, today: string, username: string): Promise<Record<string, SavedProgress>> {
+    const oldestKept = shiftDay(today, -PROGRESS_RETENTION_DAYS);
+    const progress: Record<string, SavedProgress> = {};
+    const expired: string[] = [];
+    for (const [dayKey, raw] of Object.entries(await redis.hGetAll(progressKey(username)))) {
+        let entry: SavedProgress | null = null;
+        try {
+            entry = parseSavedProgress(JSON.parse(raw));
+        } catch {
+            // Unreadable entries are dropped below
+        }
+        if (entry && dayKey >= oldestKept) progress[dayKey] = entry;
+        else expired.push(dayKey);
+    }
+    if (expired.length > 0) await redis.hDel(progressKey(username), expired);
+    return progress;
+}
+
+// Two devices may save the same day; the copy that got further is kept
+async function mergeProgress(
+    redis: RedisClient,
+    { today, rules }: Pick<RpcContext, 'today' | 'rules'>,
+    username: string,
+    entries: Record<string, unknown>
+): Promise<number> {
+    const dayKeys = Object.keys(entries);
+    if (dayKeys.length > PROGRESS_RETENTION_DAYS + 1) {
+        throw new BridgeError('BAD_REQUEST', 'Too many days in one request.');
+    }
+
+    const oldestKept = shiftDay(today, -PROGRESS_RETENTION_DAYS);
+    const stored = await readProgress(redis, today, username);
+    const updates: Record<string, string> = {};
+    for (const dayKey of dayKeys) {
+        requireDayKey(dayKey, today);
+        const incoming = parseSavedProgress(entries[dayKey]);
+        if (!incoming) throw new BridgeError('BAD_REQUEST', `Invalid progress for ${dayKey}.`);
+        if (dayKey < oldestKept) continue;
+
+        const existing = stored[dayKey];
+        const keepExisting = existing?.puzzleId === incoming.puzzleId
+            && furtherBoard(existing.playerState, incoming.playerState, rules.maxGuesses) === existing.playerState;
+        if (!keepExisting) updates[dayKey] = JSON.stringify(incoming);
+    }
+
+    const saved = Object.keys(updates).length;
+    if (saved > 0) await redis.hSet(progressKey(username), updates);
+    return saved;
+}
+
+// ─── Webview RPC ─────────────────────────────────────────────────
+// Each webview request names a method from the shared bridge protocol and
+// gets exactly one reply with the same id. Handlers throw BridgeError to
+// send a specific error code back; anything else is reported as INTERNAL.
+
+// Replies kept in the webview state at once; see HostMessage
+const RPC_OUTBOX_SIZE = 8;
+
+// useState only holds JSON. Every reply is JSON, but `result` is typed unknown.
+type RpcOutboxEntry = BridgeResponse & JSONObject;
+
+type RpcContext = Pick<Devvit.Context, 'redis' | 'reddit' | 'settings'> & {
+    /** Null for a logged-out viewer, who can read but not play; see PLAYER_METHODS */
+    username: string | null;
+    rules: GameRules;
+    /** The puzzle day under `rules`, fixed for the whole request */
+    today: string;
+};
+
+// What the player methods get once handleRpcRequest has checked the viewer is logged in
+type PlayerContext = RpcContext & { username: string };
+
+async function readFeedbackMode(settings: RpcContext['settings']): Promise<FeedbackMode> {
+    const value = await settings.get<string[]>('feedbackMode');
+    return Array.isArray(value) && value[0] === 'letters' ? 'letters' : 'classic';
+}
+
+type RpcHandlers = {
+    [M in BridgeMethod]: (
+        params: BridgeParams<M>,
+        ctx: M extends PlayerMethod ? PlayerContext : RpcContext
+    ) => Promise<BridgeResult<M>>;
+};
+
+function requireDayKey(value: unknown, today: string): string {
+    const dayKey = String(value ?? '');
+    if (!DAY_KEY_PATTERN.test(dayKey)) throw new BridgeError('BAD_REQUEST', 'A valid dayKey is required.');
+    if (dayKey > today) throw new BridgeError('NOT_ALLOWED', "That puzzle hasn't been released yet.");
+    return dayKey;
+}
+
+// Archive days and stale tabs never reach the leaderboard
+function requireToday(value: unknown, today: string): string {
+    const dayKey = requireDayKey(value, today);
+    if (dayKey !== today) throw new BridgeError('NOT_ALLOWED', "Only today's puzzle counts for the leaderboard.");
+    return dayKey;
+}
+
+async function applyGameAction(
+    ctx: PlayerContext,
+    dayKey: string,
+    toAction: (prev: GameMachineState) => GameAction | null,
+    guess?: string
+): Promise<GameVerdict> {
+    // Only the call whose save committed sees a transition, so each solve or fail is recorded once
+    const { prev, next, accepted } = await updateSession(ctx, dayKey, toAction);
+    if (accepted && prev.phase === 'playing' && next.phase === 'solved') {
+        const streak = await recordVerifiedSolve(ctx.redis, dayKey, ctx.username, next);
+        await updateStreakFlair(ctx, ctx.username, streak, dayKey);
+    }
+    // Counted for the recap's solve rate; solves are counted by recordVerifiedSolve
+    if (accepted && prev.phase === 'playing' && next.phase === 'failed') {
+        await ctx.redis.hIncrBy(`stats:${dayKey}`, 'fails', 1);
+    }
+
+    // Letter states only leave the host in letters mode; classic play learns right or wrong
+    const feedbackMode = guess !== undefined && accepted ? await readFeedbackMode(ctx.settings) : 'classic';
+    const letters = guess !== undefined && feedbackMode === 'letters'
+        ? verdictLetters(guess, (await plaintextPuzzle(ctx.redis, dayKey)).answer, feedbackMode)
+        : undefined;
+    return {
+        dayKey,
+        accepted,
+        ...(guess !== undefined && letters ? { guess, letters } : {}),
+        phase: next.phase,
+        guesses: next.game.playerState.guesses.length,
+        score: next.game.playerState.score,
+        breakdown: next.game.playerState.scoreBreakdown ?? null,
+        message: next.message,
+    };
+}
+
+const rpcHandlers: RpcHandlers = {
+    // The startup handshake. It only reads the session: opening the game must
+    // not start the clock, which the webview does with startGame.
+    // A logged-out viewer gets no player state and plays locally.
+    init: async (_params, ctx) => {
+        const dayKey = ctx.today;
+        const { username } = ctx;
+        const subreddit = await ctx.reddit.getCurrentSubreddit().then((sub) => sub.name, () => null);
+        const [session, canModerate, streak, progressByDay, feedbackMode, customBank] = await Promise.all([
+            username === null ? undefined : ctx.redis.get(sessionKey(dayKey, username)),
+            subreddit && username !== null ? canModerateClues(ctx, subreddit, username).catch(() => false) : false,
+            username === null ? null : readSyncedStreak(ctx.redis, dayKey, username),
+            username === null ? {} : readProgress(ctx.redis, dayKey, username),
+            readFeedbackMode(ctx.settings),
+            readCustomBank(ctx.redis),
+        ]);
+        return {
+            username: ctx.username,
+            subreddit,
+            dayKey,
+            progress: session ? (JSON.parse(session) as PlayerStatePayload) : null,
+            canModerateClues: canModerate,
+            streak,
+            progressByDay,
+            settings: { feedbackMode, rules: ctx.rules },
+            customPuzzles: customBank.puzzles.length > 0 ? publicCustomBank(customBank, dayKey) : null,
+        };
+    },
+
+    startGame: (params, ctx) => applyGameAction(ctx, requireToday(params?.dayKey, ctx.today), () => null),
+
+    submitGuess: (params, ctx) => {
+        const guess = String(params?.guess ?? '');
+        // A solve extends yesterday's verified streak (which the session already holds)
+        return applyGameAction(
+            ctx,
+            requireToday(params?.dayKey, ctx.today),
+            (prev) => ({ type: 'GUESS', guess, at: new Date(), solvedStreak: prev.game.playerState.streak + 1 }),
+            guess
+        );
+    },
+
+    unlockHint: (params, ctx) => applyGameAction(ctx, requireToday(params?.dayKey, ctx.today), () => ({ type: 'UNLOCK_HINT' })),
+
+    setHardMode: (params, ctx) =>
+        applyGameAction(ctx, requireToday(params?.dayKey, ctx.today), () => ({ type: 'SET_HARD_MODE', enabled: Boolean(params.enabled) })),
+
+    revealAnswer: async (params, ctx) => {
+        const dayKey = requireDayKey(params?.dayKey, ctx.today);
+
+        // Today's answer stays secret until this player's own game is over
+        if (dayKey === ctx.today) {
+            if (ctx.username === null) throw new BridgeError('NOT_ALLOWED', "Log in to Reddit to see today's answer.");
+            const session = await loadSession(ctx.redis, dayKey, ctx.rules, ctx.username);
+            if (session.phase === 'playing') throw new BridgeError('NOT_ALLOWED', 'Finish the puzzle to see the answer.');
+        }
+
+        const puzzle = await plaintextPuzzle(ctx.redis, dayKey);
+        return { dayKey, answer: puzzle.answer, acceptedAnswers: puzzle.acceptedAnswers ?? [] };
+    },
+
+    getLeaderboard: async (params, ctx) => {
+        const dayKey = requireDayKey(params?.dayKey, ctx.today);
+        const page = Math.max(0, Math.floor(Number(params.page) || 0));
+        const board = await readLeaderboard(ctx.redis, dayKey, Boolean(params.hardMode), page, ctx.username);
+        return { ...board, lastUpdated: board.lastUpdated.toISOString() };
+    },
+
+    // Like guesses, clues are only taken for today; an archive day's clues and recap are closed
+    submitClue: async (params, ctx) => {
+        const dayKey = requireToday(params?.dayKey, ctx.today);
+        return { clue: await createClue(ctx, dayKey, String(params.clueText ?? '')) };
+    },
+
+    getClues: async (params, ctx) => {
+        const dayKey = requireDayKey(params?.dayKey, ctx.today);
+        const requireApproval = await readRequireApproval(ctx.settings);
+        if (!requireApproval) await releasePendingClues(ctx.redis, dayKey);
+        return { dayKey, clues: await readClues(ctx.redis, dayKey, ctx.username, requireApproval) };
+    },
+
+    voteClue: async (params, ctx) => {
+        const dayKey = requireDayKey(params?.dayKey, ctx.today);
+        const vote = Number(params.vote);
+        if (vote !== -1 && vote !== 0 && vote !== 1) throw new BridgeError('BAD_REQUEST', 'A vote must be -1, 0 or 1.');
+        const clue = await voteOnClue(ctx.redis, dayKey, String(params.clueId ?? ''), ctx.username, vote);
+        return { clue };
+    },
+
+    reportClue: (params, ctx) =>
+        reportClue(ctx.redis, requireDayKey(params?.dayKey, ctx.today), String(params.clueId ?? ''), ctx.username),
+
+    getClueQueue: async (_params, ctx) => readClueQueue(await requireClueModerator(ctx)),
+
+    moderateClue: async (params, ctx) => {
+        const dayKey = requireDayKey(params?.dayKey, ctx.today);
+        const action = params.action;
+        if (action !== 'approve' && action !== 'remove' && action !== 'boost' && action !== 'ban') {
+            throw new BridgeError('BAD_REQUEST', `Unknown clue action: ${String(action)}`);
+        }
+        return moderateClue(await requireClueModerator(ctx), dayKey, String(params.clueId ?? ''), action);
+    },
+
+    syncStreak: async (params, ctx) => {
+        if (!params?.streak || typeof params.streak !== 'object') {
+            throw new BridgeError('BAD_REQUEST', 'A streak is required.');
+        }
+        return reconcileStreak(ctx.redis, ctx.today, ctx.username, parseStreak(params.streak));
+    },
+
+    saveProgress: async (params, ctx) => {
+        if (!params?.entries || typeof params.entries !== 'object') {
+            throw new BridgeError('BAD_REQUEST', 'Progress entries are required.');
+        }
+        return { saved: await mergeProgress(ctx.redis, ctx, ctx.username, params.entries) };
+    },
+};
+
+async function handleRpcRequest(request: Partial<BridgeRequest>, ctx: RpcContext): Promise<BridgeResponse> {
+    const id = String(request.id ?? '');
+    const method = request.method;
+    try {
+        if (!method || !Object.prototype.hasOwnProperty.call(rpcHandlers, method)) {
+            throw new BridgeError('NOT_FOUND', `Unknown method: ${String(method)}`);
+        }
+        // Logged-out viewers would otherwise all share one board, streak and leaderboard entry
+        if (ctx.username === null && isPlayerMethod(method)) {
+            throw new BridgeError('NOT_ALLOWED', 'Log in to Reddit to play for the leaderboard.');
+        }
+        const handler = rpcHandlers[method] as (params: unknown, ctx: RpcContext) => Promise<unknown>;
+        return { id, ok: true, result: await handler(request.params ?? {}, ctx) };
+    } catch (error) {
+        if (!(error instanceof BridgeError)) console.error(`RPC ${String(method)} failed:`, error);
+        return { id, ok: false, error: toBridgeErrorPayload(error) };
+    }
+}
+
 // ─── Custom Post Type ────────────────────────────────────────────
 Devvit.addCustomPostType({
     name: 'ThreadPulse Daily',
@@ -12,76 +1404,84 @@ Devvit.addCustomPostType({
     height: 'tall',
     render: (context) => {
         const [showGame, setShowGame] = useState(false);
-        const [username] = useState(context.userId || 'Redditor');
-
-        // Handle messages from the webview
-        const onWebViewMessage = async (msg: any) => {
-            const { type, data } = msg;
-
-            switch (type) {
-                case 'GAME_COMPLETE': {
-                    if (!data) break;
-                    const { score, streak, dayKey } = data as {
-                        score: number;
-                        streak: number;
-                        dayKey: string;
-                    };
-
-                    // Save score to leaderboard
-                    await context.redis.zAdd(`leaderboard:${dayKey}`, {
-                        member: String(username),
-                        score: score,
-                    });
-                    break;
-                }
-
-                case 'SUBMIT_CLUE': {
-                    if (!data) break;
-                    const { clueText, dayKey } = data as { clueText: string; dayKey: string };
-
-                    const clueId = `clue:${dayKey}:${Date.now()}`;
-                    await context.redis.hSet(clueId, {
-                        text: String(clueText),
-                        author: String(username),
-                        upvotes: '0',
-                    });
-                    break;
-                }
-            }
+        const { data: currentUser } = useAsync(async () => (await context.reddit.getCurrentUser())?.username ?? null);
+        const [outbox, setOutbox] = useState<RpcOutboxEntry[]>([]);
+        // Recomputed each render so a post left open past the reset rolls over
+        const { data: rules } = useAsync(async () => ({ ...(await readGameRules(context.settings)) }));
+        const dayKey = todayKey(rules ?? DEFAULT_GAME_RULES);
+        // Spread into a plain object, which useAsync accepts as JSON
+        const { data: snapshot } = useAsync(async () => ({ ...(await readSnapshot(context.redis, dayKey)) }), {
+            depends: [dayKey],
+        });
+        const [statsTick, setStatsTick] = useState(0);
+        const { data: stats } = useAsync(() => readDailyStats(context.redis, dayKey), {
+            depends: [dayKey, statsTick],
+        });
+        // Keep the counts live while the splash is showing
+        const statsRefresh = useInterval(() => setStatsTick((tick) => tick + 1), PREVIEW_REFRESH_MS);
+        if (showGame) statsRefresh.stop();
+        else statsRefresh.start();
+
+        // Handle RPC requests from the webview
+        const onWebViewMessage = async (msg: WebviewMessage) => {
+            if (msg?.type !== 'RPC_REQUEST' || !msg.data) return;
+            // Sessions and leaderboards are keyed by username; resolve it if the lookup above is still pending.
+            // A logged-out viewer stays null, and handleRpcRequest refuses their player methods.
+            const player = currentUser ?? (await context.reddit.getCurrentUser())?.username ?? null;
+            // Read per request, so a settings change applies from the next message
+            const latestRules = await readGameRules(context.settings);
+            const response = await handleRpcRequest(msg.data, {
+                redis: context.redis,
+                reddit: context.reddit,
+                settings: context.settings,
+                username: player,
+                rules: latestRules,
+                today: todayKey(latestRules),
+            });
+            setOutbox((prev) => [...prev, response as RpcOutboxEntry].slice(-RPC_OUTBOX_SIZE));
         };
 
-        if (!showGame) {
+        if (!showGame && !snapshot) {
             return (
-                <vstack height="100%" width="100%" alignment="center middle" gap="medium" backgroundColor="#F0F4FF">
-                    <text size="xxlarge" weight="bold" color="#FF4500">
-                        🧩 ThreadPulse Daily
-                    </text>
-                    <spacer size="medium" />
-                    <button
-                        appearance="primary"
-                        onPress={() => setShowGame(true)}
-                    >
-                        START DAILY PUZZLE
-                    </button>
-                    <spacer size="large" />
-                    <text size="small" color="#AAAAAA">
-                        Welcome, {username}
+                <vstack height="100%" width="100%" alignment="center middle" backgroundColor="#F0F4FF">
+                    <text size="small" weight="bold" color="#FF4500">
+                        🧩 THREADPULSE DAILY · {dayKey}
                     </text>
-                    <spacer size="large" />
                 </vstack>
             );
         }
 
+        if (!showGame && snapshot) {
+            return (
+                <DailyPreview
+                    snapshot={snapshot}
+                    stats={stats}
+                    footer={
+                        <vstack alignment="center middle" gap="small">
+                            <button
+                                appearance="primary"
+                                onPress={() => setShowGame(true)}
+                            >
+                                START DAILY PUZZLE
+                            </button>
+                            <text size="small" color="#AAAAAA">
+                                {currentUser ? `Welcome, ${currentUser}` : 'Log in to play for the leaderboard'}
+                            </text>
+                        </vstack>
+                    }
+                />
+            );
+        }
+
+        const hostMessage: HostMessage = { type: 'RPC_RESPONSES', data: { responses: outbox } };
+
         // Game screen — webview renders the full React game
         return (
             <vstack height="100%" width="100%">
                 <webview
                     {...({
                         url: 'index.html',
-                        state: {
-                            username: username,
-                            dayKey: new Date().toISOString().split('T')[0],
-                        },
+                        state: hostMessage,
                         onMessage: onWebViewMessage,
                         height: '100%',
                         width: '100%',
@@ -92,72 +1492,658 @@ Devvit.addCustomPostType({
     },
 });
 
-// ─── Menu Items to Create Game Posts ──────────────────────────────
+// ─── Daily Posts ─────────────────────────────────────────────────
+// One post per puzzle day per subreddit (Redis is scoped to the installation).
+// The job runs every hour and posts once the configured hour has passed in the
+// puzzle time zone, so a missed run or a changed setting is picked up on the
+// next hour.
+
+const DAILY_POST_JOB = 'daily-post';
+const DAILY_POST_PAUSED_KEY = 'daily-post:paused';
+const DAILY_POST_TTL_SECONDS = 3 * 24 * 60 * 60;
+
+const POST_LOG_KEY = 'modlog:daily-posts';
+const POST_LOG_LIMIT = 500;
+
+type DailyPostContext = Pick<TriggerContext, 'reddit' | 'redis' | 'settings'>;
+
+type PostAuthor = { source: 'scheduler' | 'install' | 'menu' | 'comment'; username: string | null };
+
+// Claim counter for the day; the post id is kept next to it
+function dailyPostKey(dayKey: string) {
+    return `daily-post:${dayKey}`;
+}
+
+async function submitDailyPost(context: DailyPostContext, dayKey: string) {
+    const subreddit = await context.reddit.getCurrentSubreddit();
+    const post = await context.reddit.submitPost({
+        title: `🧩 ThreadPulse Daily — ${dayKey}`,
+        subredditName: subreddit.name,
+        // Shown until the custom post renders, so it carries no live stats
+        preview: <DailyPreview snapshot={await readSnapshot(context.redis, dayKey)} />,
+    });
+    await context.redis.set(`${dailyPostKey(dayKey)}:post`, post.id);
+    await context.redis.expire(`${dailyPostKey(dayKey)}:post`, DAILY_POST_TTL_SECONDS);
+
+    if (await context.settings.get<boolean>('stickyDailyPost')) {
+        const yesterdayId = await context.redis.get(`${dailyPostKey(shiftDay(dayKey, -1))}:post`);
+        if (yesterdayId) {
+            try {
+                await (await context.reddit.getPostById(yesterdayId)).unsticky();
+            } catch (error) {
+                // Non-blocking: yesterday's post may have been removed or unstickied by hand
+                console.error('Failed to unsticky yesterday\'s post:', error);
+            }
+        }
+        await post.sticky();
+    }
+    return post;
+}
+
+// Audit trail of who created which post, newest last
+async function recordPostCreation(redis: RedisClient, dayKey: string, postId: string, author: PostAuthor) {
+    const at = Date.now();
+    await redis.zAdd(POST_LOG_KEY, {
+        member: JSON.stringify({ dayKey, postId, source: author.source, createdBy: author.username, at: new Date(at).toISOString() }),
+        score: at,
+    });
+    await redis.zRemRangeByRank(POST_LOG_KEY, 0, -(POST_LOG_LIMIT + 1));
+}
+
+// Create today's post unless one exists; returns null when the day is already taken
+async function ensureDailyPost(context: DailyPostContext, author: PostAuthor) {
+    const dayKey = await currentDayKey(context.settings);
+    // incrBy is atomic, so overlapping runs agree on a single winner
+    const claims = await context.redis.incrBy(dailyPostKey(dayKey), 1);
+    await context.redis.expire(dailyPostKey(dayKey), DAILY_POST_TTL_SECONDS);
+    if (claims !== 1) return null;
+
+    try {
+        const post = await submitDailyPost(context, dayKey);
+        await recordPostCreation(context.redis, dayKey, post.id, author);
+        return post;
+    } catch (error) {
+        // Release the claim so the next run retries
+        await context.redis.del(dailyPostKey(dayKey));
+        throw error;
+    }
+}
+
+Devvit.addSchedulerJob({
+    name: DAILY_POST_JOB,
+    onRun: async (_event, context) => {
+        if (await context.redis.get(DAILY_POST_PAUSED_KEY)) return;
+        const hour = Number((await context.settings.get<number>('dailyPostHour')) ?? 0);
+        if (!reachedDayHour(hour, new Date(), await readGameRules(context.settings))) return;
+        await ensureDailyPost(context, { source: 'scheduler', username: null });
+    },
+});
+
+// ─── End-of-day Recap ────────────────────────────────────────────
+// Once the puzzle resets, a job posts a stickied comment on yesterday's post
+// with the answer, the solve rate, a guess-count histogram, the fastest
+// solver, the top three scores and the best community clue. Everything comes
+// from the day's Redis keys, and buildRecapComment fills in the moderators'
+// template. A claim per day keeps it to one comment, like the daily post.
+
+const RECAP_JOB = 'daily-recap';
+const RECAP_TOP_COUNT = 3;
+
+function recapKey(dayKey: string) {
+    return `recap:${dayKey}`;
+}
+
+async function readDayRecap(redis: RedisClient, dayKey: string, rules: GameRules, requireApproval: boolean): Promise<DayRecap> {
+    const [results, stats, top, puzzle] = await Promise.all([
+        redis.hGetAll(`results:${dayKey}`),
+        redis.hGetAll(`stats:${dayKey}`),
+        redis.zRange(leaderboardKey(dayKey, false), 0, RECAP_TOP_COUNT - 1, { by: 'rank', reverse: true }),
+        plaintextPuzzle(redis, dayKey),
+    ]);
+
+    const guessHistogram: number[] = new Array(rules.maxGuesses).fill(0);
+    let fastest: DayRecap['fastest'] = null;
+    for (const [username, raw] of Object.entries(results ?? {})) {
+        let result: { guesses?: number; time?: number };
+        try {
+            result = JSON.parse(raw);
+        } catch {
+            continue;
+        }
+        const guesses = Math.max(1, Number(result.guesses) || 1);
+        // A day played under a higher guess limit still gets a bar
+        while (guessHistogram.length < guesses) guessHistogram.push(0);
+        guessHistogram[guesses - 1] += 1;
+
+        const seconds = Number(result.time);
+        if (Number.isFinite(seconds) && (!fastest || seconds < fastest.seconds)) fastest = { username, seconds };
+    }
+
+    // Nobody's own clue is added to the list, so the first one is the best ranked
+    const [bestClue] = await readClues(redis, dayKey, null, requireApproval);
+    return {
+        dayKey,
+        answer: puzzle.answer,
+        solves: guessHistogram.reduce((sum, count) => sum + count, 0),
+        fails: Number(stats?.fails || 0),
+        guessHistogram,
+        fastest,
+        top: top.map((row) => ({ username: row.member, score: row.score })),
+        bestClue: bestClue ? { text: bestClue.text, author: bestClue.author } : null,
+    };
+}
+
+async function readRecapTemplate(settings: DailyPostContext['settings']) {
+    const template = (await settings.get<string>('recapTemplate'))?.trim();
+    return template || DEFAULT_RECAP_TEMPLATE;
+}
+
+// Comment on a finished day's post unless it already has a recap; returns null when skipped
+async function ensureRecapComment(context: DailyPostContext, dayKey: string) {
+    const postId = await context.redis.get(`${dailyPostKey(dayKey)}:post`);
+    if (!postId) return null;
+
+    const claims = await context.redis.incrBy(recapKey(dayKey), 1);
+    await context.redis.expire(recapKey(dayKey), DAILY_POST_TTL_SECONDS);
+    if (claims !== 1) return null;
+
+    try {
+        const [rules, requireApproval, template] = await Promise.all([
+            readGameRules(context.settings),
+            readRequireApproval(context.settings),
+            readRecapTemplate(context.settings),
+        ]);
+        const recap = await readDayRecap(context.redis, dayKey, rules, requireApproval);
+        const comment = await context.reddit.submitComment({ id: postId, text: buildRecapComment(recap, template) });
+        await context.redis.set(`${recapKey(dayKey)}:comment`, comment.id);
+        await context.redis.expire(`${recapKey(dayKey)}:comment`, DAILY_POST_TTL_SECONDS);
+        try {
+            await comment.distinguish(true);
+        } catch (error) {
+            // Non-blocking: the recap still reads fine unstickied
+            console.error('Failed to sticky the recap comment:', error);
+        }
+        return comment;
+    } catch (error) {
+        // Release the claim so the next run retries
+        await context.redis.del(recapKey(dayKey));
+        throw error;
+    }
+}
+
+Devvit.addSchedulerJob({
+    name: RECAP_JOB,
+    onRun: async (_event, context) => {
+        if (!(await context.settings.get<boolean>('recapComment'))) return;
+        await ensureRecapComment(context, shiftDay(await currentDayKey(context.settings), -1));
+    },
+});
+
+// ─── Streak Flair ────────────────────────────────────────────────
+// Opt-in: with the streakFlair setting on, a verified solve that reaches a
+// threshold sets the player's flair. The app remembers each flair it set in
+// `streak-flairs` and only ever changes those, so a flair a player picked
+// themselves is left alone. A daily sweep after the reset removes or
+// downgrades the flairs of broken streaks, and clears them all once the
+// setting is turned off. Both read only the verified streak, never one a
+// device synced.
+
+const FLAIR_HOLDERS_KEY = 'streak-flairs';
+const FLAIR_SWEEP_JOB = 'streak-flair-sweep';
+
+type FlairSettings = { enabled: boolean; rules: StreakFlairRules; templateId?: string };
+
+type FlairContext = Pick<Devvit.Context, 'redis' | 'reddit' | 'settings'>;
+
+async function readFlairSettings(settings: FlairContext['settings']): Promise<FlairSettings> {
+    const values = await settings.getAll<Record<string, unknown>>();
+    const onBreak = values.streakFlairOnBreak;
+    return {
+        enabled: Boolean(values.streakFlair),
+        rules: {
+            thresholds: parseFlairThresholds(String(values.streakFlairThresholds ?? '')) ?? DEFAULT_FLAIR_THRESHOLDS,
+            text: String(values.streakFlairText ?? '').trim() || DEFAULT_FLAIR_TEXT,
+            onBreak: Array.isArray(onBreak) && onBreak[0] === 'downgrade' ? 'downgrade' : 'remove',
+        },
+        templateId: String(values.streakFlairTemplateId ?? '').trim() || undefined,
+    };
+}
+
+async function readFlairHolder(redis: RedisClient, username: string): Promise<HeldFlair | null> {
+    const raw = await redis.hGet(FLAIR_HOLDERS_KEY, username);
+    if (!raw) return null;
+    try {
+        return JSON.parse(raw) as HeldFlair;
+    } catch {
+        return null;
+    }
+}
+
+async function syncStreakFlair(
+    context: FlairContext,
+    subreddit: Subreddit,
+    username: string,
+    streak: StreakRecord,
+    today: string,
+    settings: FlairSettings
+) {
+    const holder = await readFlairHolder(context.redis, username);
+    // Turning the feature off clears every flair the app set
+    const rules = settings.enabled ? settings.rules : { ...settings.rules, thresholds: [], onBreak: 'remove' as const };
+    const next = nextStreakFlair(liveStreakDays(streak, today), holder, rules);
+    if (!next && !holder) return;
+
+    if (next && holder && next.text === holder.text && next.tier === holder.tier) {
+        await context.redis.hSet(FLAIR_HOLDERS_KEY, { [username]: JSON.stringify(next) });
+        return;
+    }
+
+    // A flair that isn't the one the app set belongs to the player
+    const current = (await subreddit.getUserFlair({ usernames: [username] })).users[0]?.flairText || null;
+    if (current && current !== holder?.text) {
+        if (holder) await context.redis.hDel(FLAIR_HOLDERS_KEY, [username]);
+        return;
+    }
+
+    if (next) {
+        await context.reddit.setUserFlair({
+            subredditName: subreddit.name,
+            username,
+            text: next.text,
+            ...(settings.templateId ? { flairTemplateId: settings.templateId } : {}),
+        });
+        await context.redis.hSet(FLAIR_HOLDERS_KEY, { [username]: JSON.stringify(next) });
+    } else {
+        await context.reddit.removeUserFlair(subreddit.name, username);
+        await context.redis.hDel(FLAIR_HOLDERS_KEY, [username]);
+    }
+}
+
+// Called after each verified solve; a flair failure never fails the guess
+async function updateStreakFlair(context: FlairContext, username: string, streak: StreakRecord, today: string) {
+    try {
+        const settings = await readFlairSettings(context.settings);
+        if (!settings.enabled) return;
+        await syncStreakFlair(context, await context.reddit.getCurrentSubreddit(), username, streak, today, settings);
+    } catch (error) {
+        console.error(`Failed to update the streak flair for ${username}:`, error);
+    }
+}
+
+Devvit.addSchedulerJob({
+    name: FLAIR_SWEEP_JOB,
+    onRun: async (_event, context) => {
+        const today = await currentDayKey(context.settings);
+        // Once per day, like the daily post
+        const claims = await context.redis.incrBy(`${FLAIR_HOLDERS_KEY}:swept:${today}`, 1);
+        await context.redis.expire(`${FLAIR_HOLDERS_KEY}:swept:${today}`, DAILY_POST_TTL_SECONDS);
+        if (claims !== 1) return;
+
+        const holders = await context.redis.hGetAll(FLAIR_HOLDERS_KEY);
+        if (Object.keys(holders ?? {}).length === 0) return;
+        const [settings, subreddit] = await Promise.all([readFlairSettings(context.settings), context.reddit.getCurrentSubreddit()]);
+        for (const username of Object.keys(holders)) {
+            try {
+                const streak = await readStreak(context.redis, streakKey(username));
+                await syncStreakFlair(context, subreddit, username, streak ?? { lastSolvedDay: null, streakDays: 0 }, today, settings);
+            } catch (error) {
+                // One failure shouldn't stop the rest; the next solve or sweep retries
+                console.error(`Failed to sweep the streak flair for ${username}:`, error);
+            }
+        }
+    },
+});
+
+// All jobs run hourly, a few minutes apart
+const JOB_SCHEDULES: Record<string, string> = {
+    [DAILY_POST_JOB]: '0 * * * *',
+    [RECAP_JOB]: '5 * * * *',
+    [FLAIR_SWEEP_JOB]: '10 * * * *',
+};
+
+async function scheduleJobs(context: Pick<TriggerContext, 'scheduler'>) {
+    // Upgrades re-run this, so drop the previous registrations instead of stacking jobs
+    const jobs = await context.scheduler.listJobs();
+    await Promise.all(jobs.filter((job) => job.name in JOB_SCHEDULES).map((job) => context.scheduler.cancelJob(job.id)));
+    for (const [name, cron] of Object.entries(JOB_SCHEDULES)) {
+        await context.scheduler.runJob({ name, cron });
+    }
+}
+
+// ─── Moderator Permissions ───────────────────────────────────────
+// Manual posts and clue moderation need a moderator with the Posts (or
+// Everything) permission. Menu items are only shown to moderators, but that
+// is a UI hint, so every entry point checks again. The daily claim doubles as
+// the cooldown: once today's post exists, nobody can create another until
+// the puzzle resets.
+
+const POST_PERMISSIONS: ModeratorPermission[] = ['all', 'posts'];
+
+// e.g. "06:00 Europe/Berlin", for replies that name a time
+function clockTime(hour: number, rules: GameRules) {
+    return `${String(hour).padStart(2, '0')}:00 ${rules.timeZone}`;
+}
+
+async function canCreatePosts(context: Pick<DailyPostContext, 'reddit'>, subredditName: string, username: string) {
+    const mods = await context.reddit.getModerators({ subredditName, username }).all();
+    const mod = mods.find((user) => user.username.toLowerCase() === username.toLowerCase());
+    if (!mod) return false;
+    const permissions = await mod.getModPermissionsForSubreddit(subredditName);
+    return permissions.some((permission) => POST_PERMISSIONS.includes(permission));
+}
+
+// Reviewing clues is post moderation, so it takes the same permission
+function canModerateClues(context: Pick<DailyPostContext, 'reddit'>, subredditName: string, username: string) {
+    return canCreatePosts(context, subredditName, username);
+}
+
+async function todaysPostLink(context: DailyPostContext) {
+    const postId = await context.redis.get(`${dailyPostKey(await currentDayKey(context.settings))}:post`);
+    if (!postId) return null;
+    try {
+        return `https://www.reddit.com${(await context.reddit.getPostById(postId)).permalink}`;
+    } catch {
+        return null;
+    }
+}
+
+type ManualPostResult =
+    | { status: 'created' }
+    | { status: 'forbidden' }
+    | { status: 'cooldown'; link: string | null };
+
+async function createDailyPostAs(
+    context: DailyPostContext,
+    username: string | undefined,
+    source: 'menu' | 'comment'
+): Promise<ManualPostResult> {
+    const subreddit = await context.reddit.getCurrentSubreddit();
+    if (!username || !(await canCreatePosts(context, subreddit.name, username))) return { status: 'forbidden' };
+
+    const post = await ensureDailyPost(context, { source, username });
+    return post ? { status: 'created' } : { status: 'cooldown', link: await todaysPostLink(context) };
+}
+
+// ─── Custom Puzzle Forms ─────────────────────────────────────────
+// Adding and scheduling custom puzzles is post moderation, so the forms take
+// the Posts permission and check it again on submit.
+
+const customPuzzleForm = Devvit.createForm(
+    {
+        title: 'Add a ThreadPulse puzzle',
+        description: 'The puzzle is checked against the bank and scheduled for the next free day. Players see it once it lands.',
+        acceptLabel: 'Schedule puzzle',
+        fields: [
+            { type: 'string', name: 'answer', label: 'Answer', helpText: '3 to 20 letters or digits.', required: true },
+            { type: 'string', name: 'title', label: 'Title', required: true },
+            { type: 'string', name: 'category', label: 'Category', helpText: 'For example gaming or patch-notes.', required: true },
+            { type: 'paragraph', name: 'hint1', label: 'Hint 1', helpText: 'Free, and shown in the post preview.', required: true },
+            { type: 'paragraph', name: 'hint2', label: 'Hint 2', required: true },
+            { type: 'paragraph', name: 'hint3', label: 'Hint 3', required: true },
+            { type: 'string', name: 'tags', label: 'Subreddit tags', helpText: 'Comma-separated, e.g. r/gaming, r/pcgaming.', required: true },
+        ],
+    },
+    async ({ values }, context) => {
+        const [user, subreddit] = await Promise.all([context.reddit.getCurrentUser(), context.reddit.getCurrentSubreddit()]);
+        if (!user || !(await canCreatePosts(context, subreddit.name, user.username))) {
+            context.ui.showToast({ text: 'You need the Posts moderator permission to add puzzles.' });
+            return;
+        }
+
+        const text = (name: string) => String(values[name] ?? '');
+        const { puzzle, issues } = await addCustomPuzzle(
+            context.redis,
+            await currentDayKey(context.settings),
+            {
+                answer: text('answer'),
+                title: text('title'),
+                category: text('category'),
+                hints: [text('hint1'), text('hint2'), text('hint3')],
+                subredditTags: text('tags').split(/[,\s]+/),
+            },
+            user.username
+        );
+        if (!puzzle) {
+            const more = issues.length > 1 ? ` (and ${issues.length - 1} more)` : '';
+            context.ui.showToast({ text: `Puzzle not added: ${issues[0]?.message ?? 'it failed the bank checks.'}${more}` });
+            return;
+        }
+        context.ui.showToast({ text: `Puzzle ${puzzle.id} scheduled for ${puzzle.landsOn}.`, appearance: 'success' });
+    }
+);
+
+const customScheduleForm = Devvit.createForm(
+    (data) => ({
+        title: 'Custom puzzle schedule',
+        acceptLabel: 'Save',
+        fields: [
+            {
+                type: 'paragraph',
+                name: 'schedule',
+                label: 'Landing days',
+                defaultValue: String(data.schedule ?? ''),
+                disabled: true,
+            },
+            {
+                type: 'select',
+                name: 'mode',
+                label: 'On days without a custom puzzle',
+                helpText: 'Changes take effect tomorrow.',
+                options: [
+                    { label: 'Play the default schedule (merge)', value: 'merge' },
+                    { label: 'Replay a custom puzzle (replace)', value: 'replace' },
+                ],
+                defaultValue: [String(data.mode ?? 'merge')],
+            },
+        ],
+    }),
+    async ({ values }, context) => {
+        const [user, subreddit] = await Promise.all([context.reddit.getCurrentUser(), context.reddit.getCurrentSubreddit()]);
+        if (!user || !(await canCreatePosts(context, subreddit.name, user.username))) {
+            context.ui.showToast({ text: 'You need the Posts moderator permission to change the puzzle schedule.' });
+            return;
+        }
+
+        const mode: CustomBankMode = Array.isArray(values.mode) && values.mode[0] === 'replace' ? 'replace' : 'merge';
+        if (await setCustomBankMode(context.redis, await currentDayKey(context.settings), mode)) {
+            context.ui.showToast({
+                text: mode === 'replace'
+                    ? 'From tomorrow, days without a custom puzzle replay one.'
+                    : 'From tomorrow, days without a custom puzzle play the default schedule.',
+                appearance: 'success',
+            });
+        }
+    }
+);
+
+// ─── Clue Ban Form ───────────────────────────────────────────────
+// Bans are lifted here rather than in the webview queue, since a ban removes
+// the clue that would have carried the button.
+
+const clueBanForm = Devvit.createForm(
+    (data) => ({
+        title: 'ThreadPulse clue bans',
+        description: 'Selected authors can submit clues again.',
+        acceptLabel: 'Unban',
+        fields: [
+            {
+                type: 'select',
+                name: 'authors',
+                label: 'Banned authors',
+                multiSelect: true,
+                options: ((data.bans ?? []) as { author: string; label: string }[]).map((ban) => ({
+                    label: ban.label,
+                    value: ban.author,
+                })),
+            },
+        ],
+    }),
+    async ({ values }, context) => {
+        const [user, subreddit] = await Promise.all([context.reddit.getCurrentUser(), context.reddit.getCurrentSubreddit()]);
+        if (!user || !(await canModerateClues(context, subreddit.name, user.username))) {
+            context.ui.showToast({ text: 'You need the Posts moderator permission to review clues.' });
+            return;
+        }
+
+        const authors = Array.isArray(values.authors) ? values.authors.map(String) : [];
+        const lifted = await unbanClueAuthors(context.redis, authors, user.username);
+        context.ui.showToast({
+            text: lifted > 0 ? `Unbanned ${lifted} clue author${lifted === 1 ? '' : 's'}.` : 'No one was unbanned.',
+            appearance: lifted > 0 ? 'success' : 'neutral',
+        });
+    }
+);
+
+// ─── Menu Items ──────────────────────────────────────────────────
 Devvit.addMenuItem({
     label: '🧩 Create ThreadPulse Daily Post',
     location: 'subreddit',
+    forUserType: 'moderator',
     onPress: async (_event, context) => {
-        const subreddit = await context.reddit.getCurrentSubreddit();
-        const dateStr = new Date().toISOString().split('T')[0];
+        const user = await context.reddit.getCurrentUser();
+        const result = await createDailyPostAs(context, user?.username, 'menu');
 
-        await context.reddit.submitPost({
-            title: `🧩 ThreadPulse Daily — ${dateStr}`,
-            subredditName: subreddit.name,
-            preview: (
-                <vstack alignment="center middle" height="100%" gap="medium" backgroundColor="#F0F4FF">
-                    <text size="xxlarge" weight="bold" color="#FF4500">
-                        🧩 ThreadPulse Daily
-                    </text>
-                    <text size="medium" color="#666666">
-                        Loading today's puzzle...
-                    </text>
-                </vstack>
-            ),
-        });
+        if (result.status === 'forbidden') {
+            context.ui.showToast({ text: 'You need the Posts moderator permission to create the daily post.' });
+        } else if (result.status === 'cooldown') {
+            const rules = await readGameRules(context.settings);
+            context.ui.showToast({
+                text: `Today's ThreadPulse Daily post already exists. Try again after ${clockTime(rules.resetHour, rules)}.`,
+            });
+        } else {
+            context.ui.showToast({
+                text: `ThreadPulse Daily post created!`,
+                appearance: 'success',
+            });
+        }
+    },
+});
+
+Devvit.addMenuItem({
+    label: '⏯ Pause / Resume Daily Posts',
+    location: 'subreddit',
+    forUserType: 'moderator',
+    onPress: async (_event, context) => {
+        const [user, subreddit] = await Promise.all([context.reddit.getCurrentUser(), context.reddit.getCurrentSubreddit()]);
+        if (!user || !(await canCreatePosts(context, subreddit.name, user.username))) {
+            context.ui.showToast({ text: 'You need the Posts moderator permission to change the daily schedule.' });
+            return;
+        }
+
+        const paused = Boolean(await context.redis.get(DAILY_POST_PAUSED_KEY));
+        if (paused) {
+            await context.redis.del(DAILY_POST_PAUSED_KEY);
+        } else {
+            await context.redis.set(DAILY_POST_PAUSED_KEY, new Date().toISOString());
+        }
 
         context.ui.showToast({
-            text: `ThreadPulse Daily post created!`,
+            text: paused ? 'Daily posts resumed.' : 'Daily posts paused — no new posts until you resume.',
             appearance: 'success',
         });
     },
 });
 
+Devvit.addMenuItem({
+    label: '🛡️ Review ThreadPulse Clues',
+    location: 'subreddit',
+    forUserType: 'moderator',
+    onPress: async (_event, context) => {
+        const [user, subreddit] = await Promise.all([context.reddit.getCurrentUser(), context.reddit.getCurrentSubreddit()]);
+        if (!user || !(await canModerateClues(context, subreddit.name, user.username))) {
+            context.ui.showToast({ text: 'You need the Posts moderator permission to review clues.' });
+            return;
+        }
+
+        // The queue itself lives in the webview, so send the mod to today's post
+        const dayKey = await currentDayKey(context.settings);
+        const [pending, reported, postId] = await Promise.all([
+            context.redis.zCard(cluePendingKey(dayKey)),
+            context.redis.zCard(clueReportedKey(dayKey)),
+            context.redis.get(`${dailyPostKey(dayKey)}:post`),
+        ]);
+        const summary = `${pending} clue${pending === 1 ? '' : 's'} awaiting approval, ${reported} reported.`;
+        if (!postId) {
+            context.ui.showToast({ text: `${summary} Create today's post to open the clue queue.` });
+            return;
+        }
+        context.ui.showToast({ text: `${summary} Open 🛡️ in today's post to review them.` });
+        context.ui.navigateTo(await context.reddit.getPostById(postId));
+    },
+});
+
+Devvit.addMenuItem({
+    label: '🔓 ThreadPulse Clue Bans',
+    location: 'subreddit',
+    forUserType: 'moderator',
+    onPress: async (_event, context) => {
+        const [user, subreddit] = await Promise.all([context.reddit.getCurrentUser(), context.reddit.getCurrentSubreddit()]);
+        if (!user || !(await canModerateClues(context, subreddit.name, user.username))) {
+            context.ui.showToast({ text: 'You need the Posts moderator permission to review clues.' });
+            return;
+        }
+
+        const bans = Object.entries(await readClueBans(context.redis));
+        if (bans.length === 0) {
+            context.ui.showToast({ text: 'No one is banned from submitting clues.' });
+            return;
+        }
+        context.ui.showForm(clueBanForm, {
+            bans: bans.map(([author, ban]) => ({
+                author,
+                label: ban.at ? `u/${author} (banned by u/${ban.by} on ${ban.at.slice(0, 10)})` : `u/${author}`,
+            })),
+        });
+    },
+});
+
+Devvit.addMenuItem({
+    label: '➕ Add ThreadPulse Puzzle',
+    location: 'subreddit',
+    forUserType: 'moderator',
+    onPress: async (_event, context) => {
+        const [user, subreddit] = await Promise.all([context.reddit.getCurrentUser(), context.reddit.getCurrentSubreddit()]);
+        if (!user || !(await canCreatePosts(context, subreddit.name, user.username))) {
+            context.ui.showToast({ text: 'You need the Posts moderator permission to add puzzles.' });
+            return;
+        }
+        context.ui.showForm(customPuzzleForm);
+    },
+});
+
+Devvit.addMenuItem({
+    label: '📅 ThreadPulse Puzzle Schedule',
+    location: 'subreddit',
+    forUserType: 'moderator',
+    onPress: async (_event, context) => {
+        const [user, subreddit] = await Promise.all([context.reddit.getCurrentUser(), context.reddit.getCurrentSubreddit()]);
+        if (!user || !(await canCreatePosts(context, subreddit.name, user.username))) {
+            context.ui.showToast({ text: 'You need the Posts moderator permission to change the puzzle schedule.' });
+            return;
+        }
+
+        const [bank, today] = await Promise.all([readCustomBank(context.redis), currentDayKey(context.settings)]);
+        context.ui.showForm(customScheduleForm, {
+            schedule: describeCustomSchedule(bank, today),
+            mode: customBankMode(shiftDay(today, 1), bank),
+        });
+    },
+});
+
 // ─── Automated Post Creation Triggers ────────────────────────────
 Devvit.addTrigger({
     event: 'AppInstall',
     onEvent: async (_event, context) => {
-        const subreddit = await context.reddit.getCurrentSubreddit();
-        const dateStr = new Date().toISOString().split('T')[0];
-
-        await context.reddit.submitPost({
-            title: `🧩 ThreadPulse Daily — ${dateStr}`,
-            subredditName: subreddit.name,
-            preview: (
-                <vstack alignment="center middle" height="100%" gap="medium" backgroundColor="#F0F4FF">
-                    <text size="xxlarge" weight="bold" color="#FF4500">🧩 ThreadPulse Daily</text>
-                    <text size="medium" color="#666666">Creating your puzzle...</text>
-                </vstack>
-            ),
-        });
+        await scheduleJobs(context);
+        await ensureDailyPost(context, { source: 'install', username: null });
     },
 });
 
+// Upgrades only re-register the schedule; today's post already exists
 Devvit.addTrigger({
     event: 'AppUpgrade',
     onEvent: async (_event, context) => {
-        const subreddit = await context.reddit.getCurrentSubreddit();
-        const dateStr = new Date().toISOString().split('T')[0];
-
-        await context.reddit.submitPost({
-            title: `🧩 ThreadPulse Daily — ${dateStr}`,
-            subredditName: subreddit.name,
-            preview: (
-                <vstack alignment="center middle" height="100%" gap="medium" backgroundColor="#F0F4FF">
-                    <text size="xxlarge" weight="bold" color="#FF4500">🧩 ThreadPulse Daily</text>
-                    <text size="medium" color="#666666">Creating your puzzle...</text>
-                </vstack>
-            ),
-        });
+        await scheduleJobs(context);
     },
 });
 
@@ -165,25 +2151,25 @@ Devvit.addTrigger({
     event: 'CommentSubmit',
     onEvent: async (event, context) => {
         const body = event.comment?.body?.toLowerCase().trim();
-        if (body === '!create-game') {
-            const subreddit = await context.reddit.getCurrentSubreddit();
-            const dateStr = new Date().toISOString().split('T')[0];
-
-            await context.reddit.submitPost({
-                title: `🧩 ThreadPulse Daily — ${dateStr}`,
-                subredditName: subreddit.name,
-                preview: (
-                    <vstack alignment="center middle" height="100%" gap="medium" backgroundColor="#F0F4FF">
-                        <text size="xxlarge" weight="bold" color="#FF4500">🧩 ThreadPulse Daily</text>
-                        <text size="medium" color="#666666">Creating your puzzle...</text>
-                    </vstack>
-                ),
-            });
+        const commentId = event.comment?.id;
+        if (body !== '!create-game' || !commentId) return;
 
-            if (event.comment?.id) {
-                await context.reddit.remove(event.comment.id, true);
-            }
+        const result = await createDailyPostAs(context, event.author?.name, 'comment');
+        if (result.status === 'created') {
+            // The command has done its job; keep the thread clean
+            await context.reddit.remove(commentId, true);
+            return;
         }
+
+        const hour = Number((await context.settings.get<number>('dailyPostHour')) ?? 0);
+        const rules = await readGameRules(context.settings);
+        const text = result.status === 'forbidden'
+            ? `Only moderators with the Posts permission can use \`!create-game\`. ` +
+              `A new ThreadPulse Daily puzzle is posted automatically every day at ${clockTime(hour, rules)}.`
+            : result.link
+                ? `Today's ThreadPulse Daily puzzle is already up: ${result.link}`
+                : `Today's ThreadPulse Daily puzzle has already been posted. The next one arrives after ${clockTime(rules.resetHour, rules)}.`;
+        await context.reddit.submitComment({ id: commentId, text });
     },
 });
 
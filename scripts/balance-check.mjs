@@ -8,16 +8,41 @@ import fs from 'fs';
 
 console.log("⚖️  ThreadPulse Daily - Balance Check\n");
 
-// These must match the actual values in dailyGameEngine.ts and useGameStore.ts
+// Subreddits can change these in their settings; the defaults and the
+// allowed ranges are read from gameRules.ts so this check can't drift
+const rulesSrc = fs.readFileSync('./src/core/gameRules.ts', 'utf8');
+
+function readDefaultRule(name) {
+    const defaults = rulesSrc.match(/DEFAULT_GAME_RULES[^{]*\{([^}]*)\}/);
+    const value = defaults?.[1].match(new RegExp(`\\b${name}:\\s*(\\d+)`));
+    if (!value) throw new Error(`DEFAULT_GAME_RULES.${name} not found in gameRules.ts`);
+    return Number(value[1]);
+}
+
+function readRuleLimit(name) {
+    const limit = rulesSrc.match(new RegExp(`\\b${name}:\\s*\\{\\s*min:\\s*(\\d+),\\s*max:\\s*(\\d+)\\s*\\}`));
+    if (!limit) throw new Error(`GAME_RULE_LIMITS.${name} not found in gameRules.ts`);
+    return { min: Number(limit[1]), max: Number(limit[2]) };
+}
+
+const RULE_LIMITS = {
+    maxGuesses: readRuleLimit('maxGuesses'),
+    hintCost: readRuleLimit('hintCost'),
+};
+
+// These must match the actual values in dailyGameEngine.ts and gameRules.ts
 const BALANCE_CONFIG = {
     maxHints: 3,          // max 3 hints per puzzle (dailyGameEngine.ts getHintSet)
-    maxGuesses: 6,        // max 6 guesses per game (useGameStore.ts MAX_GUESSES)
+    maxGuesses: readDefaultRule('maxGuesses'),         // DEFAULT_GAME_RULES.maxGuesses
     baseScore: 100,       // base score on correct (dailyGameEngine.ts computeScore)
-    hintPenaltyPerHint: 15,  // penalty per hint after first (computeScore)
-    maxTimePenalty: 35,   // max time penalty (computeScore)
+    hintPenaltyPerHint: readDefaultRule('hintCost'),   // DEFAULT_GAME_RULES.hintCost
+    maxTimePenalty: readDefaultRule('timePenaltyCap'), // DEFAULT_GAME_RULES.timePenaltyCap
     streakBonusDivisor: 2,   // streak / 2 bonus (computeScore)
     maxStreakBonus: 25,   // max streak bonus (computeScore)
     minScore: 5,          // minimum possible score (computeScore)
+    minDifficultyMultiplier: 0.75, // easiest puzzle (difficultyMultiplier)
+    maxDifficultyMultiplier: 1.25, // hardest puzzle (difficultyMultiplier)
+    hardModeMultiplier: 1.25,      // opt-in hard mode (HARD_MODE_MULTIPLIER)
     minClueLength: 8,     // minimum clue length (validateCommunityClue)
     maxClueLength: 180,   // maximum clue length (validateCommunityClue)
     maxCommunityClues: 5  // max clues shown (rankCommunityClues limit)
@@ -31,13 +56,18 @@ function verifySourceAlignment() {
     console.log("0. Source File Verification");
 
     const engineSrc = fs.readFileSync('./src/core/dailyGameEngine.ts', 'utf8');
-    const storeSrc = fs.readFileSync('./src/hooks/useGameStore.ts', 'utf8');
+    const reducerSrc = fs.readFileSync('./src/core/gameReducer.ts', 'utf8');
 
-    // Check MAX_GUESSES in store
-    if (storeSrc.includes('MAX_GUESSES = 6')) {
-        console.log(`  ✅ MAX_GUESSES = 6 confirmed in useGameStore.ts`);
+    // The reducer and scoring must take their limits from the game rules
+    if (reducerSrc.includes('rules.maxGuesses') && !/MAX_GUESSES\s*=/.test(reducerSrc)) {
+        console.log(`  ✅ guess limit read from GameRules in gameReducer.ts`);
     } else {
-        issues.push("MAX_GUESSES value mismatch in useGameStore.ts");
+        issues.push("gameReducer.ts does not read the guess limit from GameRules");
+    }
+    if (/\{ hintCost, timePenaltyCap \} = rules/.test(engineSrc)) {
+        console.log(`  ✅ hint cost and time penalty read from GameRules in dailyGameEngine.ts`);
+    } else {
+        issues.push("dailyGameEngine.ts does not score with GameRules");
     }
 
     // Check baseScore in engine
@@ -47,6 +77,20 @@ function verifySourceAlignment() {
         issues.push("baseScore value mismatch in dailyGameEngine.ts");
     }
 
+    // Check difficulty multiplier range
+    if (engineSrc.includes('0.75 + clamped * 0.5')) {
+        console.log(`  ✅ difficulty multiplier 0.75×–1.25× confirmed in dailyGameEngine.ts`);
+    } else {
+        issues.push("difficulty multiplier range mismatch in dailyGameEngine.ts");
+    }
+
+    // Check hard mode multiplier
+    if (engineSrc.includes(`HARD_MODE_MULTIPLIER = ${BALANCE_CONFIG.hardModeMultiplier}`)) {
+        console.log(`  ✅ HARD_MODE_MULTIPLIER = ${BALANCE_CONFIG.hardModeMultiplier} confirmed in dailyGameEngine.ts`);
+    } else {
+        issues.push("HARD_MODE_MULTIPLIER value mismatch in dailyGameEngine.ts");
+    }
+
     // Check clue length limits
     if (engineSrc.includes('raw.length < 8')) {
         console.log(`  ✅ minClueLength = 8 confirmed in dailyGameEngine.ts`);
@@ -58,6 +102,15 @@ function verifySourceAlignment() {
     const puzzleBankSrc = fs.readFileSync('./src/data/puzzleBank.ts', 'utf8');
     const puzzleCount = (puzzleBankSrc.match(/id:\s*"p\d+"/g) || []).length;
     console.log(`  ✅ Puzzle bank size: ${puzzleCount} puzzles`);
+    const ratings = [...puzzleBankSrc.matchAll(/difficulty:\s*([\d.]+)/g)].map((m) => Number(m[1]));
+    if (ratings.length !== puzzleCount) {
+        issues.push(`Only ${ratings.length} of ${puzzleCount} puzzles have a difficulty rating`);
+    } else if (ratings.some((r) => r < 0 || r > 1)) {
+        issues.push("Puzzle difficulty ratings must be between 0 and 1");
+    } else {
+        const average = ratings.reduce((sum, r) => sum + r, 0) / ratings.length;
+        console.log(`  ✅ Difficulty ratings: ${ratings.length} puzzles, average ${average.toFixed(2)}`);
+    }
     if (puzzleCount < 28) {
         warnings.push(`Only ${puzzleCount} puzzles — recommend 28+ for a full month`);
     }
@@ -80,7 +133,11 @@ function checkScoreConfig() {
     }
 
     // Score range analysis
-    const bestScore = BALANCE_CONFIG.baseScore + BALANCE_CONFIG.maxStreakBonus;
+    const bestScore = Math.round(
+        (BALANCE_CONFIG.baseScore + BALANCE_CONFIG.maxStreakBonus) *
+        BALANCE_CONFIG.maxDifficultyMultiplier *
+        BALANCE_CONFIG.hardModeMultiplier
+    );
     const worstWinScore = BALANCE_CONFIG.minScore;
     console.log(`  ✅ Score range: ${worstWinScore} – ${bestScore}`);
 }
@@ -131,6 +188,29 @@ function checkClueSystem() {
     }
 }
 
+// Check the range moderators can set
+function checkRuleSettings() {
+    console.log("\n5. Subreddit Rule Settings");
+
+    const { maxGuesses, hintCost } = RULE_LIMITS;
+    console.log(`  ✅ Guesses per puzzle: ${maxGuesses.min}–${maxGuesses.max} (default ${BALANCE_CONFIG.maxGuesses})`);
+    console.log(`  ✅ Hint cost: ${hintCost.min}–${hintCost.max} (default ${BALANCE_CONFIG.hintPenaltyPerHint})`);
+
+    if (BALANCE_CONFIG.maxGuesses < maxGuesses.min || BALANCE_CONFIG.maxGuesses > maxGuesses.max) {
+        issues.push("Default guess limit is outside the allowed setting range");
+    }
+    if (BALANCE_CONFIG.hintPenaltyPerHint < hintCost.min || BALANCE_CONFIG.hintPenaltyPerHint > hintCost.max) {
+        issues.push("Default hint cost is outside the allowed setting range");
+    }
+    if (maxGuesses.min < 2) {
+        issues.push("Guess limit setting allows fewer than 2 guesses");
+    }
+    // At the highest cost, unlocking every hint should never wipe out the base score
+    if ((BALANCE_CONFIG.maxHints - 1) * hintCost.max > BALANCE_CONFIG.baseScore) {
+        warnings.push("The highest hint cost setting can cost more than the base score");
+    }
+}
+
 // Run all checks
 try {
     verifySourceAlignment();
@@ -141,6 +221,7 @@ checkScoreConfig();
 checkHintSystem();
 checkGuessLimits();
 checkClueSystem();
+checkRuleSettings();
 
 // Summary
 console.log(`\n${'═'.repeat(50)}`);
@@ -0,0 +1,93 @@
+#!/usr/bin/env node
+/**
+ * Answer hashing for ThreadPulse Daily 2026
+ * Generates src/data/publicPuzzleBank.ts — the puzzle bank the webview ships,
+ * with every answer replaced by salted hashes (see buildAnswerDigest).
+ * Loads the real engine through Vite, so the digests are exactly the ones
+ * evaluateGuess checks against.
+ *
+ * Usage: node scripts/hash-answers.mjs [--check]
+ *   --check  exit non-zero if publicPuzzleBank.ts is out of date instead of writing it
+ */
+
+import fs from 'fs';
+import { createServer } from 'vite';
+
+const SOURCE = './src/data/puzzleBank.ts';
+const TARGET = './src/data/publicPuzzleBank.ts';
+
+// ─── Engine and plaintext bank ──────────────────────────────────
+// Without the app's config, so no plugins run; only the TS modules are transformed
+const server = await createServer({ configFile: false, logLevel: 'silent', server: { middlewareMode: true }, appType: 'custom' });
+const [{ buildAnswerDigest }, { puzzleBank }] = await Promise.all([
+    server.ssrLoadModule('/src/core/dailyGameEngine.ts'),
+    server.ssrLoadModule('/src/data/puzzleBank.ts'),
+]);
+await server.close();
+
+// ─── Render publicPuzzleBank.ts ─────────────────────────────────
+const str = (value) => JSON.stringify(value);
+const list = (values) => `[${values.map(str).join(", ")}]`;
+
+function renderPuzzle(puzzle) {
+    const digest = buildAnswerDigest(puzzle);
+    const lines = [
+        `        id: ${str(puzzle.id)},`,
+        `        category: ${str(puzzle.category)},`,
+        `        title: ${str(puzzle.title)},`,
+        `        difficulty: ${puzzle.difficulty},`,
+        `        hints: [`,
+        puzzle.hints.map(hint => `            ${str(hint)}`).join(",\n"),
+        `        ],`,
+        `        subredditTags: ${list(puzzle.subredditTags)},`
+    ];
+    if (puzzle.nearMissPolicy) lines.push(`        nearMissPolicy: ${str(puzzle.nearMissPolicy)},`);
+    lines.push(
+        `        digest: {`,
+        `            salt: ${str(digest.salt)},`,
+        `            answerHash: ${str(digest.answerHash)},`,
+        `            answerLength: ${digest.answerLength},`,
+        `            acceptedHashes: ${list(digest.acceptedHashes)},`,
+        `            nearMissHashes: ${list(digest.nearMissHashes)},`,
+        `            stemHashes: ${list(digest.stemHashes)},`,
+        `            spellingHashes: ${list(digest.spellingHashes)},`,
+        `            typoDepth: ${digest.typoDepth},`,
+        `            typoHashes: ${list(digest.typoHashes)}`,
+        `        }`
+    );
+    return `    {\n${lines.join("\n")}\n    }`;
+}
+
+const output = `// Generated by \`npm run hash-answers\` from puzzleBank.ts — do not edit by hand.
+// The webview imports this bank; only the Devvit host and scripts read the plaintext one.
+
+import type { AnswerDigest } from "../types";
+
+export interface PublicPuzzle {
+    id: string;
+    category: string;
+    title: string;
+    difficulty: number;
+    hints: string[];
+    subredditTags: string[];
+    nearMissPolicy?: "free" | "counted" | "off";
+    digest: AnswerDigest;
+}
+
+export const publicPuzzleBank: PublicPuzzle[] = [
+${puzzleBank.map(renderPuzzle).join(",\n")}
+];
+`;
+
+if (process.argv.includes('--check')) {
+    const current = fs.existsSync(TARGET) ? fs.readFileSync(TARGET, 'utf8') : '';
+    if (current !== output) {
+        console.error(`❌ ${TARGET} is out of date. Run \`npm run hash-answers\`.`);
+        process.exit(1);
+    }
+    console.log(`✅ ${TARGET} matches ${SOURCE} (${puzzleBank.length} puzzles)`);
+    process.exit(0);
+}
+
+fs.writeFileSync(TARGET, output);
+console.log(`🔒 Wrote ${TARGET} (${puzzleBank.length} puzzles, answers hashed)`);
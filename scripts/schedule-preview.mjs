@@ -0,0 +1,82 @@
+#!/usr/bin/env node
+/**
+ * Schedule preview for ThreadPulse Daily 2026
+ * Prints the upcoming daily puzzle schedule with repeat and category statistics.
+ * Loads the real engine through Vite, so the preview is exactly what
+ * pickDailyPuzzle serves.
+ *
+ * Usage: node scripts/schedule-preview.mjs [--start YYYY-MM-DD] [--days 365] [--quiet]
+ */
+
+import { createServer } from 'vite';
+
+// ─── CLI arguments ──────────────────────────────────────────────
+const args = process.argv.slice(2);
+function argValue(name, fallback) {
+    const i = args.indexOf(name);
+    return i >= 0 && args[i + 1] ? args[i + 1] : fallback;
+}
+
+// ─── Engine ─────────────────────────────────────────────────────
+// Without the app's config, so no plugins run; only the TS modules are transformed
+const server = await createServer({ configFile: false, logLevel: 'silent', server: { middlewareMode: true }, appType: 'custom' });
+const [{ planDailySchedule }, { puzzleBank }, { puzzleSchedule }] = await Promise.all([
+    server.ssrLoadModule('/src/core/dailyGameEngine.ts'),
+    server.ssrLoadModule('/src/data/puzzleBank.ts'),
+    server.ssrLoadModule('/src/data/puzzleSchedule.ts'),
+]);
+await server.close();
+
+// ─── Preview ────────────────────────────────────────────────────
+const startKey = argValue('--start', new Date().toISOString().slice(0, 10));
+const days = Math.max(1, Number(argValue('--days', 365)) || 365);
+const quiet = args.includes('--quiet');
+
+console.log(`📅 ThreadPulse Daily — Schedule Preview\n`);
+console.log(`   Start: ${startKey} · Days: ${days} · Bank: ${puzzleBank.length} puzzles`);
+console.log(`   Versions: ${puzzleSchedule.versions.map(v => `v${v.version} ${v.strategy ?? 'hash'} from ${v.effectiveFrom} (${v.bankSize})`).join(', ')}\n`);
+
+const plan = planDailySchedule(new Date(`${startKey}T12:00:00Z`), days, puzzleBank, puzzleSchedule);
+
+if (!quiet) {
+    plan.forEach(entry => {
+        const pin = entry.pinned ? ' 📌' : '';
+        console.log(`   ${entry.dayKey}  v${entry.scheduleVersion}  ${entry.puzzle.id}  ${entry.puzzle.answer.padEnd(16)} ${entry.puzzle.category}${pin}`);
+    });
+    console.log('');
+}
+
+// ─── Statistics ─────────────────────────────────────────────────
+const lastSeen = new Map();
+const uses = new Map();
+const categories = new Map();
+let repeats = 0;
+let minGap = Infinity;
+let backToBackCategory = 0;
+
+plan.forEach((entry, i) => {
+    const id = entry.puzzle.id;
+    if (lastSeen.has(id)) {
+        repeats++;
+        minGap = Math.min(minGap, i - lastSeen.get(id));
+    }
+    lastSeen.set(id, i);
+    uses.set(id, (uses.get(id) || 0) + 1);
+    categories.set(entry.puzzle.category, (categories.get(entry.puzzle.category) || 0) + 1);
+    if (i > 0 && plan[i - 1].puzzle.category === entry.puzzle.category) backToBackCategory++;
+});
+
+console.log(`${'═'.repeat(50)}`);
+console.log(`📊 Schedule Statistics`);
+console.log(`${'═'.repeat(50)}`);
+console.log(`   Distinct puzzles: ${uses.size} / ${puzzleBank.length}`);
+console.log(`   Repeats: ${repeats}`);
+console.log(`   Shortest gap between repeats: ${Number.isFinite(minGap) ? `${minGap} days` : 'n/a'}`);
+console.log(`   Back-to-back same category: ${backToBackCategory}`);
+console.log(`   Most used puzzle: ${Math.max(...uses.values())}× · Least used: ${Math.min(...uses.values())}×`);
+console.log(`\n   Category distribution:`);
+[...categories.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .forEach(([category, count]) => console.log(`     ${category.padEnd(20)} ${count}`));
+
+process.exit(0);
@@ -5,6 +5,13 @@
  */
 
 import fs from 'fs';
+import { execSync } from 'child_process';
+import { createServer } from 'vite';
+
+// The real engine, for the checks that run it; loaded through Vite like scripts/schedule-preview.mjs
+const server = await createServer({ configFile: false, logLevel: 'silent', server: { middlewareMode: true }, appType: 'custom' });
+const engine = await server.ssrLoadModule('/src/core/dailyGameEngine.ts');
+await server.close();
 
 console.log("🧪 ThreadPulse Daily — Self Test Suite\n");
 
@@ -42,12 +49,50 @@ test("dailyGameEngine exports required functions", () => {
     assert(src.includes('export function rankCommunityClues'), "Missing rankCommunityClues");
 });
 
+test("gameReducer handles the core game actions", () => {
+    const src = fs.readFileSync('./src/core/gameReducer.ts', 'utf8');
+    assert(src.includes('export function gameReducer'), "Missing gameReducer");
+    for (const action of ['GUESS', 'UNLOCK_HINT', 'SUBMIT_CLUE', 'TICK']) {
+        assert(src.includes(`case "${action}"`), `Missing ${action} action`);
+    }
+});
+
 test("puzzleBank has 28+ puzzles for daily content", () => {
     const src = fs.readFileSync('./src/data/puzzleBank.ts', 'utf8');
     const count = (src.match(/id:\s*"p\d+"/g) || []).length;
     assert(count >= 28, `Only ${count} puzzles — need 28+ for a full month`);
 });
 
+test("publicPuzzleBank is up to date and ships no plaintext answers", () => {
+    try {
+        execSync('node scripts/hash-answers.mjs --check', { stdio: 'pipe' });
+    } catch {
+        assert(false, "Out of date — run npm run hash-answers");
+    }
+    const src = fs.readFileSync('./src/data/publicPuzzleBank.ts', 'utf8');
+    assert(!/\banswer:/.test(src), "Plaintext answer found in publicPuzzleBank.ts");
+    const script = fs.readFileSync('./scripts/hash-answers.mjs', 'utf8');
+    assert(script.includes("ssrLoadModule('/src/core/dailyGameEngine.ts')") && !/function (cyrb53|buildAnswerDigest)\b/.test(script),
+        "hash-answers.mjs keeps its own copy of the digest logic");
+});
+
+test("Classic-mode verdicts carry no letter states", () => {
+    assert(engine.verdictLetters('karma', 'karma', 'classic') === undefined, "A classic verdict reveals letter states");
+    const letters = engine.verdictLetters('karma', 'kayak', 'letters');
+    assert(Array.isArray(letters) && letters[0] === 'correct', "A letters verdict is missing its letter states");
+    const host = fs.readFileSync('./apps/devvit/src/main.tsx', 'utf8');
+    assert(!host.includes('evaluateLetters(') && host.includes('verdictLetters('), "Host builds letter states outside verdictLetters");
+});
+
+test("puzzleSchedule versions fit within the puzzle bank", () => {
+    const bankSrc = fs.readFileSync('./src/data/puzzleBank.ts', 'utf8');
+    const scheduleSrc = fs.readFileSync('./src/data/puzzleSchedule.ts', 'utf8');
+    const count = (bankSrc.match(/id:\s*"p\d+"/g) || []).length;
+    const sizes = [...scheduleSrc.matchAll(/bankSize:\s*(\d+)/g)].map((m) => Number(m[1]));
+    assert(sizes.length > 0, "No schedule versions found");
+    sizes.forEach((size) => assert(size <= count, `Schedule expects ${size} puzzles but bank has ${count}`));
+});
+
 // --- 2. Components ---
 console.log("\n2. UI Components");
 
@@ -209,9 +254,122 @@ test("Devvit message bridge exists", () => {
     assert(fs.existsSync('./src/utils/devvitBridge.ts'), "Missing devvitBridge.ts");
 });
 
-test("App.tsx uses devvitBridge", () => {
-    const src = fs.readFileSync('./src/App.tsx', 'utf8');
-    assert(src.includes('devvitBridge'), "devvitBridge not integrated in App");
+test("Bridge protocol is shared by the webview and the host", () => {
+    const bridge = fs.readFileSync('./src/utils/devvitBridge.ts', 'utf8');
+    const host = fs.readFileSync('./apps/devvit/src/main.tsx', 'utf8');
+    assert(bridge.includes("from './bridgeProtocol'"), "devvitBridge.ts does not import bridgeProtocol");
+    assert(host.includes("src/utils/bridgeProtocol'"), "main.tsx does not import bridgeProtocol");
+    assert(!/\bwindow\b|\bdocument\b/.test(fs.readFileSync('./src/utils/bridgeProtocol.ts', 'utf8')),
+        "bridgeProtocol.ts must not touch the DOM — the host imports it");
+});
+
+test("Game store starts with the devvitBridge handshake", () => {
+    const src = fs.readFileSync('./src/hooks/useGameStore.ts', 'utf8');
+    assert(src.includes('devvitBridge'), "devvitBridge not integrated in the game store");
+    assert(src.includes('devvitBridge.call("init"'), "Game store does not wait for the init handshake");
+});
+
+test("Logged-out viewers can't write player state", () => {
+    const store = fs.readFileSync('./src/hooks/useGameStore.ts', 'utf8');
+    const host = fs.readFileSync('./apps/devvit/src/main.tsx', 'utf8');
+    assert(!host.includes("?? 'Redditor'"), "Logged-out viewers still share a fallback player");
+    assert(host.includes('isPlayerMethod(method)'), "Host does not refuse player methods without a username");
+    assert(store.includes('isPlayerMethod(method)'), "Webview still sends player methods for a logged-out viewer");
+});
+
+test("Host sessions are updated in one transaction", () => {
+    const host = fs.readFileSync('./apps/devvit/src/main.tsx', 'utf8');
+    const update = host.slice(host.indexOf('async function updateSession'), host.indexOf('function leaderboardKey'));
+    assert(update.includes('redis.watch(sessionKey(') && update.includes('commitTransaction(txn)'),
+        "Concurrent moves can both start from the same saved session");
+});
+
+test("Streaks are reconciled the same way by the webview and the host", () => {
+    const store = fs.readFileSync('./src/hooks/useGameStore.ts', 'utf8');
+    const host = fs.readFileSync('./apps/devvit/src/main.tsx', 'utf8');
+    assert(store.includes('resolveStreak') && host.includes('resolveStreak'), "resolveStreak is not shared by both sides");
+    assert(host.includes('syncStreak:') && host.includes('saveProgress:'), "Host does not handle streak and progress sync");
+});
+
+test("resolveStreak joins contiguous runs whichever copy holds the later solve", () => {
+    const earlier = { lastSolvedDay: '2026-10-17', streakDays: 5 };
+    const later = { lastSolvedDay: '2026-10-18', streakDays: 1 };
+    for (const [a, b] of [[earlier, later], [later, earlier]]) {
+        const merged = engine.resolveStreak(a, b, '2026-10-19');
+        assert(merged.lastSolvedDay === '2026-10-18' && merged.streakDays === 6,
+            `Expected 6 days to 2026-10-18, got ${merged.streakDays} to ${merged.lastSolvedDay}`);
+    }
+});
+
+test("Device-offered streaks never overwrite the verified streak", () => {
+    const host = fs.readFileSync('./apps/devvit/src/main.tsx', 'utf8');
+    const reconcile = host.slice(host.indexOf('async function reconcileStreak'), host.indexOf('function parseSavedProgress'));
+    assert(reconcile.includes('deviceStreakKey(') && !reconcile.includes('redis.set(streakKey('), "syncStreak writes the verified streak");
+});
+
+test("Community clues are indexed, ranked and voted on by the host", () => {
+    const host = fs.readFileSync('./apps/devvit/src/main.tsx', 'utf8');
+    assert(host.includes('getClues:') && host.includes('voteClue:'), "Host does not serve getClues and voteClue");
+    assert(host.includes('rankCommunityClues'), "Host does not rank clues with rankCommunityClues");
+    assert(host.includes('zIncrBy'), "Votes do not update the per-day clue index");
+    assert(host.includes('existingClues: await readClueTexts('), "Duplicate clues are only checked against the ranked few");
+    const submit = host.slice(host.indexOf('submitClue: async'), host.indexOf('getClues: async'));
+    assert(submit.includes('requireToday('), "Clues can still be submitted to archive days");
+});
+
+test("Clue moderation is checked and logged on the host", () => {
+    const host = fs.readFileSync('./apps/devvit/src/main.tsx', 'utf8');
+    assert(host.includes('moderateClue:') && host.includes('getClueQueue:'), "Host does not serve the clue queue");
+    assert(host.includes('requireClueModerator'), "Clue moderation does not check the moderator's permission");
+    assert(host.includes("'modlog:clues'"), "Clue moderation is not logged");
+    assert(host.includes('requireApproval'), "Clue ranking ignores the pre-approval setting");
+    assert(host.includes('releasePendingClues('), "Pending clues stay hidden once approval is turned off");
+    assert(host.includes("hDel(CLUE_BANS_KEY") && host.includes('showForm(clueBanForm'), "Clue bans can't be lifted");
+});
+
+test("Custom puzzle banks are linted and scheduled by the shared engine", () => {
+    const engine = fs.readFileSync('./src/core/dailyGameEngine.ts', 'utf8');
+    const host = fs.readFileSync('./apps/devvit/src/main.tsx', 'utf8');
+    const store = fs.readFileSync('./src/hooks/useGameStore.ts', 'utf8');
+    assert(engine.includes('export function lintPuzzleBank'), "Missing lintPuzzleBank");
+    assert(engine.includes('export function pickSubredditPuzzle'), "Missing pickSubredditPuzzle");
+    assert(host.includes('lintPuzzleBank(') && host.includes('createForm'), "Host does not lint puzzles from the authoring form");
+    assert(host.includes('claimLandingDay('), "Concurrent additions can land on the same day");
+    assert(host.includes('pickSubredditPuzzle') && store.includes('pickSubredditPuzzle'), "Webview and host do not pick the day's puzzle the same way");
+});
+
+test("Game rules come from one GameRules object", () => {
+    const rules = fs.readFileSync('./src/core/gameRules.ts', 'utf8');
+    const reducer = fs.readFileSync('./src/core/gameReducer.ts', 'utf8');
+    const host = fs.readFileSync('./apps/devvit/src/main.tsx', 'utf8');
+    const balance = fs.readFileSync('./scripts/balance-check.mjs', 'utf8');
+    assert(rules.includes('export function resolveGameRules') && rules.includes('export function gameDayKey'), "Missing rule helpers");
+    assert(!/MAX_GUESSES\s*=/.test(reducer) && reducer.includes('rules.maxGuesses'), "Reducer still hardcodes the guess limit");
+    assert(host.includes('readGameRules(') && host.includes('rules: ctx.rules'), "Host does not send the subreddit rules to the webview");
+    assert(!host.includes('getUTCHours') && host.includes('reachedDayHour('), "Daily post hour ignores the puzzle time zone");
+    assert(balance.includes('gameRules.ts'), "Balance check does not read the game rules");
+});
+
+test("End-of-day recap is templated from Redis stats", () => {
+    const engine = fs.readFileSync('./src/core/dailyGameEngine.ts', 'utf8');
+    const host = fs.readFileSync('./apps/devvit/src/main.tsx', 'utf8');
+    assert(engine.includes('export function buildRecapComment') && engine.includes('DEFAULT_RECAP_TEMPLATE'), "Missing recap template");
+    assert(host.includes('readDayRecap(') && host.includes("'fails'"), "Host does not compute the recap from Redis");
+    assert(host.includes('distinguish(true)') && host.includes('RECAP_JOB'), "Recap is not a scheduled, stickied comment");
+    const recap = host.slice(host.indexOf('async function readDayRecap'), host.indexOf('async function ensureRecapComment'));
+    assert(recap.includes('readClues(redis, dayKey, null,') && !recap.includes('releasePendingClues('),
+        "The recap reads clues as a fake player or changes clue state");
+});
+
+test("Streak flair follows verified streaks", () => {
+    const engine = fs.readFileSync('./src/core/dailyGameEngine.ts', 'utf8');
+    const host = fs.readFileSync('./apps/devvit/src/main.tsx', 'utf8');
+    assert(engine.includes('export function nextStreakFlair') && engine.includes('DEFAULT_FLAIR_THRESHOLDS'), "Missing streak flair rules");
+    assert(host.includes('setUserFlair(') && host.includes('removeUserFlair('), "Host does not set and remove flair");
+    assert(host.includes('FLAIR_SWEEP_JOB') && host.includes("name: 'streakFlair'"), "Streak flair is not an opt-in setting with a sweep");
+    const sweep = host.slice(host.indexOf('name: FLAIR_SWEEP_JOB'), host.indexOf('const JOB_SCHEDULES'));
+    assert(host.includes('const streak = await recordVerifiedSolve(') && sweep.includes('streakKey(username)'),
+        "Streak flair reads a streak a device can change");
 });
 
 test("WASM package exists", () => {
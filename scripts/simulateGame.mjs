@@ -67,13 +67,14 @@ function evaluateGuess({ guess, answer }) {
     return { normalizedGuess: ng, normalizedAnswer: na, correct: ng.length > 0 && ng === na };
 }
 
-function computeScore({ correct, hintsUsed, timeSeconds, streakDays }) {
+function computeScore({ correct, hintsUsed, timeSeconds, streakDays, difficulty = 0.5 }) {
     if (!correct) return 0;
     const base = 100;
     const hintPen = Math.max(0, hintsUsed - 1) * 15;
     const timePen = Math.min(35, Math.floor(Math.max(0, timeSeconds) / 6));
     const streakBonus = Math.min(25, Math.floor(Math.max(0, streakDays) / 2));
-    return Math.max(5, base - hintPen - timePen + streakBonus);
+    const multiplier = Math.round((0.75 + Math.max(0, Math.min(1, difficulty)) * 0.5) * 100) / 100;
+    return Math.max(5, Math.round((base - hintPen - timePen + streakBonus) * multiplier));
 }
 
 function validateCommunityClue(text, options = {}) {
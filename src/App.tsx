@@ -3,37 +3,59 @@ import { useCallback, useEffect, useRef, useState } from "react";
 import { GameBoard } from "./components/GameBoard";
 import { Confetti } from "./components/Confetti";
 import { ResultModal } from "./components/ResultModal";
+import { ArchiveCalendar } from "./components/ArchiveCalendar";
+import { LeaderboardPanel } from "./components/LeaderboardPanel";
+import { ClueQueuePanel } from "./components/ClueQueuePanel";
+import { firstScheduledDay } from "./core/dailyGameEngine";
 import { useGameStore } from "./hooks/useGameStore";
+import { useLeaderboard } from "./hooks/useLeaderboard";
+import { useClueQueue } from "./hooks/useClueQueue";
 import { useGameMaker } from "./hooks/useGameMaker";
 import { useHapticFeedback } from "./hooks/useHapticFeedback";
-import { devvitBridge } from "./utils/devvitBridge";
 
 function App() {
   const {
     currentGame,
     isLoading,
     error,
+    elapsedSeconds: timer,
+    archiveStatus,
+    todayKey,
+    username,
+    subreddit,
     refreshGame,
     submitGuess,
     unlockHint,
+    setHardMode,
     submitClue,
+    voteClue,
+    reportClue,
+    canModerateClues,
   } = useGameStore();
 
+  const leaderboard = useLeaderboard();
+  const clueQueue = useClueQueue();
   const gameMaker = useGameMaker();
   const haptics = useHapticFeedback();
 
   const [showConfetti, setShowConfetti] = useState(false);
   const [showResultModal, setShowResultModal] = useState(false);
-  const [timer, setTimer] = useState(0);
   const [copied, setCopied] = useState(false);
-  const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const [showArchive, setShowArchive] = useState(false);
+  const [archiveDay, setArchiveDay] = useState<string | null>(null);
+  const [showLeaderboard, setShowLeaderboard] = useState(false);
+  const [showClueQueue, setShowClueQueue] = useState(false);
   const prevCompletedRef = useRef(false);
+  const loadedDayRef = useRef<string | null>(null);
+
+  // Initialize game (today's puzzle, or the archive day picked from the calendar)
+  useEffect(() => {
+    void refreshGame(archiveDay ? new Date(`${archiveDay}T12:00:00Z`) : undefined);
+  }, [refreshGame, archiveDay]);
 
-  // Initialize game
   useEffect(() => {
-    void refreshGame();
     void gameMaker.initialize();
-  }, [refreshGame, gameMaker.initialize]);
+  }, [gameMaker.initialize]);
 
   // Hide loading screen once app is ready
   useEffect(() => {
@@ -48,21 +70,17 @@ function App() {
     }
   }, [isLoading, currentGame]);
 
-  // Timer
+  // Resume a saved run: re-open the result of a finished day
   useEffect(() => {
-    if (
-      currentGame &&
-      !currentGame.playerState.completed &&
-      currentGame.playerState.guesses.length < 6
-    ) {
-      timerRef.current = setInterval(() => {
-        setTimer((prev) => prev + 1);
-      }, 1000);
-    }
+    if (!currentGame || loadedDayRef.current === currentGame.dayKey) return;
+    loadedDayRef.current = currentGame.dayKey;
 
-    return () => {
-      if (timerRef.current) clearInterval(timerRef.current);
-    };
+    const { playerState } = currentGame;
+    // Already finished before this load — skip the celebration and reporting
+    const finished = playerState.completed || playerState.guesses.length >= currentGame.rules.maxGuesses;
+    prevCompletedRef.current = finished;
+    setShowConfetti(false);
+    setShowResultModal(finished);
   }, [currentGame]);
 
   // Detect solve
@@ -71,22 +89,12 @@ function App() {
       prevCompletedRef.current = true;
       setShowConfetti(true);
 
-      // Stop timer
-      if (timerRef.current) clearInterval(timerRef.current);
-
       // Haptic feedback
       haptics.triggerHaptic("success");
 
       // GameMaker celebration
       gameMaker.triggerAnimation("celebration");
 
-      // Report to Devvit host for leaderboard
-      devvitBridge.reportGameComplete(
-        currentGame.playerState.score ?? 0,
-        currentGame.playerState.guesses.length,
-        currentGame.playerState.streak ?? 0
-      );
-
       // Show result modal after a brief delay
       setTimeout(() => setShowResultModal(true), 1200);
     }
@@ -95,11 +103,10 @@ function App() {
     if (
       currentGame &&
       !currentGame.playerState.completed &&
-      currentGame.playerState.guesses.length >= 6 &&
+      currentGame.playerState.guesses.length >= currentGame.rules.maxGuesses &&
       !prevCompletedRef.current
     ) {
       prevCompletedRef.current = true;
-      if (timerRef.current) clearInterval(timerRef.current);
       haptics.triggerHaptic("error");
       gameMaker.triggerAnimation("error");
       setTimeout(() => setShowResultModal(true), 800);
@@ -132,6 +139,11 @@ function App() {
     }
   }, []);
 
+  const handleArchiveSelect = useCallback((dayKey: string) => {
+    setShowArchive(false);
+    setArchiveDay(dayKey === todayKey ? null : dayKey);
+  }, [todayKey]);
+
   const formatTime = (seconds: number) => {
     const m = Math.floor(seconds / 60);
     const s = seconds % 60;
@@ -178,20 +190,56 @@ function App() {
             </div>
             <div className="brand-text">
               <h1>ThreadPulse Daily</h1>
-              <p>{currentGame.dayKey}</p>
+              <p>
+                {currentGame.dayKey}
+                {currentGame.isArchive && <span className="archive-badge">Archive</span>}
+              </p>
             </div>
           </div>
 
           <div className="header-meta">
-            {/* Timer */}
-            {!currentGame.playerState.completed &&
-              currentGame.playerState.guesses.length < 6 && (
+            {/* Timer — hidden when the subreddit turns it off */}
+            {currentGame.rules.timer &&
+              !currentGame.playerState.completed &&
+              currentGame.playerState.guesses.length < currentGame.rules.maxGuesses && (
                 <div className="timer" aria-label={`Time elapsed: ${formatTime(timer)}`}>
                   <span className="timer-icon">⏱</span>
                   <span>{formatTime(timer)}</span>
                 </div>
               )}
 
+            {/* Archive */}
+            <button
+              type="button"
+              className="btn btn-ghost archive-toggle"
+              onClick={() => setShowArchive(true)}
+              aria-label="Open puzzle archive"
+            >
+              📅
+            </button>
+
+            {/* Leaderboard */}
+            <button
+              type="button"
+              className="btn btn-ghost leaderboard-toggle"
+              onClick={() => setShowLeaderboard(true)}
+              aria-label="Open leaderboard"
+            >
+              🏆
+            </button>
+
+            {/* Clue queue (moderators) */}
+            {canModerateClues && (
+              <button
+                type="button"
+                className="btn btn-ghost clue-queue-toggle"
+                onClick={() => setShowClueQueue(true)}
+                aria-label="Open clue moderation queue"
+              >
+                🛡️
+              </button>
+            )}
+
             {/* Streak */}
             {currentGame.playerState.streak > 0 && (
               <div className="streak-badge" aria-label={`${currentGame.playerState.streak} day streak`}>
@@ -220,12 +268,26 @@ function App() {
           </div>
         )}
 
+        {/* Archive banner */}
+        {currentGame.isArchive && (
+          <div className="archive-banner" role="status">
+            <span>📅 Playing the {currentGame.dayKey} puzzle — streaks and leaderboards aren&apos;t affected.</span>
+            <button type="button" className="btn btn-outline" onClick={() => setArchiveDay(null)}>
+              Back to today
+            </button>
+          </div>
+        )}
+
         {/* Game Board */}
         <GameBoard
           gameState={currentGame}
           onGuessSubmit={(g) => void handleGuessSubmit(g)}
           onHintUnlock={() => void unlockHint()}
           onClueSubmit={(c) => void submitClue(c)}
+          onClueVote={voteClue}
+          onClueReport={reportClue}
+          username={username}
+          onHardModeToggle={setHardMode}
           onGameMakerAnimation={handleGameMakerAnimation}
         />
       </main>
@@ -250,10 +312,48 @@ function App() {
         </div>
       </footer>
 
+      {/* ─── Archive Calendar ─── */}
+      {showArchive && (
+        <ArchiveCalendar
+          todayKey={todayKey}
+          firstDayKey={firstScheduledDay()}
+          selectedDayKey={currentGame.dayKey}
+          statuses={archiveStatus}
+          onSelect={handleArchiveSelect}
+          onClose={() => setShowArchive(false)}
+        />
+      )}
+
+      {/* ─── Leaderboard ─── */}
+      {showLeaderboard && (
+        <LeaderboardPanel
+          dayKey={currentGame.dayKey}
+          board={leaderboard.board}
+          isLoading={leaderboard.isLoading}
+          error={leaderboard.error}
+          isAvailable={leaderboard.isAvailable}
+          onRequestPage={leaderboard.requestPage}
+          onClose={() => setShowLeaderboard(false)}
+        />
+      )}
+
+      {/* ─── Clue Queue ─── */}
+      {showClueQueue && (
+        <ClueQueuePanel
+          queue={clueQueue.queue}
+          isLoading={clueQueue.isLoading}
+          error={clueQueue.error}
+          onRefresh={clueQueue.refresh}
+          onModerate={clueQueue.moderate}
+          onClose={() => setShowClueQueue(false)}
+        />
+      )}
+
       {/* ─── Result Modal ─── */}
       {showResultModal && currentGame && (
         <ResultModal
           gameState={currentGame}
+          subreddit={subreddit}
           onClose={() => setShowResultModal(false)}
           onShare={handleShare}
         />
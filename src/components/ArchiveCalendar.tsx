@@ -0,0 +1,130 @@
+import { useMemo, useState } from "react";
+import type { ArchiveDayStatus } from "../types";
+
+const WEEKDAYS = ["S", "M", "T", "W", "T", "F", "S"];
+
+const STATUS_ICON: Record<ArchiveDayStatus, string> = {
+    solved: "✅",
+    failed: "❌",
+    "in-progress": "⏳",
+};
+
+interface ArchiveCalendarProps {
+    todayKey: string;
+    firstDayKey: string;
+    selectedDayKey: string;
+    statuses: Record<string, ArchiveDayStatus>;
+    onSelect: (dayKey: string) => void;
+    onClose: () => void;
+}
+
+function monthOf(dayKey: string) {
+    return dayKey.slice(0, 7);
+}
+
+function shiftMonth(month: string, delta: number) {
+    const d = new Date(`${month}-01T00:00:00Z`);
+    d.setUTCMonth(d.getUTCMonth() + delta);
+    return d.toISOString().slice(0, 7);
+}
+
+export function ArchiveCalendar({
+    todayKey,
+    firstDayKey,
+    selectedDayKey,
+    statuses,
+    onSelect,
+    onClose,
+}: ArchiveCalendarProps) {
+    const [month, setMonth] = useState(monthOf(selectedDayKey));
+
+    const cells = useMemo(() => {
+        const first = new Date(`${month}-01T00:00:00Z`);
+        const daysInMonth = new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth() + 1, 0)).getUTCDate();
+        const leading = Array.from({ length: first.getUTCDay() }, () => null);
+        const days = Array.from({ length: daysInMonth }, (_, i) => `${month}-${String(i + 1).padStart(2, "0")}`);
+        return [...leading, ...days];
+    }, [month]);
+
+    const monthLabel = new Date(`${month}-01T00:00:00Z`).toLocaleDateString(undefined, {
+        month: "long",
+        year: "numeric",
+        timeZone: "UTC",
+    });
+    const canGoBack = month > monthOf(firstDayKey);
+    const canGoForward = month < monthOf(todayKey);
+
+    return (
+        <div className="modal-overlay" onClick={onClose} role="dialog" aria-modal="true" aria-label="Puzzle Archive">
+            <div className="modal-card archive-card" onClick={(e) => e.stopPropagation()}>
+                <h2 className="result-title">📅 Puzzle Archive</h2>
+                <p style={{ color: "var(--text-secondary)", fontSize: "var(--text-sm)" }}>
+                    Replay any past puzzle. Archive plays don&apos;t affect your streak or today&apos;s leaderboard.
+                </p>
+
+                <div className="archive-nav">
+                    <button
+                        type="button"
+                        className="btn btn-ghost"
+                        onClick={() => setMonth(shiftMonth(month, -1))}
+                        disabled={!canGoBack}
+                        aria-label="Previous month"
+                    >
+                        ‹
+                    </button>
+                    <span className="archive-month">{monthLabel}</span>
+                    <button
+                        type="button"
+                        className="btn btn-ghost"
+                        onClick={() => setMonth(shiftMonth(month, 1))}
+                        disabled={!canGoForward}
+                        aria-label="Next month"
+                    >
+                        ›
+                    </button>
+                </div>
+
+                <div className="archive-grid">
+                    {WEEKDAYS.map((label, i) => (
+                        <span key={`weekday-${i}`} className="archive-weekday">
+                            {label}
+                        </span>
+                    ))}
+                    {cells.map((dayKey, i) => {
+                        if (!dayKey) return <span key={`blank-${i}`} />;
+
+                        const playable = dayKey >= firstDayKey && dayKey <= todayKey;
+                        const status = statuses[dayKey];
+                        let cls = "archive-day";
+                        if (dayKey === selectedDayKey) cls += " selected";
+                        if (dayKey === todayKey) cls += " today";
+                        if (status) cls += ` ${status}`;
+
+                        return (
+                            <button
+                                key={dayKey}
+                                type="button"
+                                className={cls}
+                                disabled={!playable}
+                                onClick={() => onSelect(dayKey)}
+                                aria-label={`${dayKey}${status ? ` (${status})` : ""}`}
+                            >
+                                <span>{Number(dayKey.slice(8))}</span>
+                                {status && <span className="archive-status">{STATUS_ICON[status]}</span>}
+                            </button>
+                        );
+                    })}
+                </div>
+
+                <button
+                    className="btn btn-ghost"
+                    onClick={onClose}
+                    style={{ marginTop: "var(--sp-4)", width: "100%" }}
+                    type="button"
+                >
+                    Close
+                </button>
+            </div>
+        </div>
+    );
+}
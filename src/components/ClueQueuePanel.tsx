@@ -0,0 +1,113 @@
+import { useEffect } from "react";
+import type { ClueModAction, ClueQueue, QueuedClue } from "../utils/bridgeProtocol";
+
+interface ClueQueuePanelProps {
+    queue: ClueQueue | null;
+    isLoading: boolean;
+    error: string | null;
+    onRefresh: () => void;
+    onModerate: (dayKey: string, clueId: string, action: ClueModAction) => void;
+    onClose: () => void;
+}
+
+function QueuedClueRow({
+    clue,
+    dayKey,
+    disabled,
+    onModerate,
+}: {
+    clue: QueuedClue;
+    dayKey: string;
+    disabled: boolean;
+    onModerate: ClueQueuePanelProps["onModerate"];
+}) {
+    return (
+        <li className="clue-queue-item">
+            <div className="clue-text">{clue.text}</div>
+            <div className="clue-author">
+                by {clue.author} · {clue.upvotes} vote{clue.upvotes !== 1 ? "s" : ""}
+                {clue.reports > 0 && ` · ⚑ ${clue.reports} report${clue.reports !== 1 ? "s" : ""}`}
+                {clue.modBoost > 0 && " · boosted"}
+            </div>
+            <div className="clue-queue-actions">
+                <button type="button" className="btn btn-outline" disabled={disabled} onClick={() => onModerate(dayKey, clue.id, "approve")}>
+                    {clue.approved ? "Keep" : "Approve"}
+                </button>
+                <button type="button" className="btn btn-ghost" disabled={disabled} onClick={() => onModerate(dayKey, clue.id, "boost")}>
+                    ⭐ Boost
+                </button>
+                <button type="button" className="btn btn-ghost" disabled={disabled} onClick={() => onModerate(dayKey, clue.id, "remove")}>
+                    Remove
+                </button>
+                <button
+                    type="button"
+                    className="btn btn-ghost clue-queue-ban"
+                    disabled={disabled}
+                    onClick={() => onModerate(dayKey, clue.id, "ban")}
+                    aria-label={`Remove and ban ${clue.author} from submitting clues`}
+                >
+                    Ban author
+                </button>
+            </div>
+        </li>
+    );
+}
+
+export function ClueQueuePanel({ queue, isLoading, error, onRefresh, onModerate, onClose }: ClueQueuePanelProps) {
+    useEffect(() => {
+        onRefresh();
+    }, [onRefresh]);
+
+    const sections = queue
+        ? [
+              { title: "Awaiting approval", clues: queue.pending, empty: queue.requireApproval ? "Nothing waiting." : "Pre-approval is off — new clues go live straight away." },
+              { title: "Reported", clues: queue.reported, empty: "No reports." },
+          ]
+        : [];
+
+    return (
+        <div className="modal-overlay" onClick={onClose} role="dialog" aria-modal="true" aria-label="Clue queue">
+            <div className="modal-card leaderboard-card" onClick={(e) => e.stopPropagation()}>
+                <h2 className="result-title">🛡️ Clue Queue</h2>
+                <p style={{ color: "var(--text-secondary)", fontSize: "var(--text-sm)" }}>
+                    {queue ? `Community clues for ${queue.dayKey}.` : "Community clues for today."} Banning removes the clue and stops its author submitting
+                    clues here. Every action is logged.
+                </p>
+
+                {error && (
+                    <p className="leaderboard-empty" role="alert">{error}</p>
+                )}
+
+                {!queue ? (
+                    <p className="leaderboard-empty">{isLoading ? "Loading the queue…" : "The queue is unavailable."}</p>
+                ) : (
+                    sections.map((section) => (
+                        <section key={section.title} className="clue-queue-section" aria-busy={isLoading}>
+                            <h3 className="card-title">
+                                {section.title} ({section.clues.length})
+                            </h3>
+                            {section.clues.length === 0 ? (
+                                <p className="leaderboard-empty">{section.empty}</p>
+                            ) : (
+                                <ul className="clue-list">
+                                    {section.clues.map((clue) => (
+                                        <QueuedClueRow key={clue.id} clue={clue} dayKey={queue.dayKey} disabled={isLoading} onModerate={onModerate} />
+                                    ))}
+                                </ul>
+                            )}
+                        </section>
+                    ))
+                )}
+
+                <button
+                    className="btn btn-ghost"
+                    onClick={onClose}
+                    style={{ marginTop: "var(--sp-4)", width: "100%" }}
+                    type="button"
+                >
+                    Close
+                </button>
+            </div>
+        </div>
+    );
+}
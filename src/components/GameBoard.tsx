@@ -1,13 +1,17 @@
 import { type FormEvent, useCallback, useEffect, useMemo, useRef, useState } from "react";
-import type { DailyGameState } from "../types";
-
-const MAX_GUESSES = 6;
+import type { ClueVote, DailyGameState } from "../types";
 
 interface GameBoardProps {
   gameState: DailyGameState;
   onGuessSubmit: (guess: string) => void;
   onHintUnlock: () => void;
   onClueSubmit: (clue: string) => void;
+  onClueVote?: (clueId: string, vote: ClueVote) => void;
+  /** Flags a clue for the moderators; only offered inside Reddit */
+  onClueReport?: (clueId: string) => void;
+  /** The Reddit username inside Reddit; null when playing locally */
+  username?: string | null;
+  onHardModeToggle?: (enabled: boolean) => void;
   onGameMakerAnimation?: (type: string) => void;
 }
 
@@ -16,20 +20,33 @@ export function GameBoard({
   onGuessSubmit,
   onHintUnlock,
   onClueSubmit,
+  onClueVote,
+  onClueReport,
+  username = null,
+  onHardModeToggle,
   onGameMakerAnimation,
 }: GameBoardProps) {
   const [guess, setGuess] = useState("");
   const [clueInput, setClueInput] = useState("");
   const [shakeInput, setShakeInput] = useState(false);
   const [showClueSection, setShowClueSection] = useState(false);
+  const [reportedClues, setReportedClues] = useState<string[]>([]);
   const inputRef = useRef<HTMLInputElement>(null);
 
+  const { maxGuesses, hintCost, clueSubmission } = gameState.rules;
   const guessesUsed = gameState.playerState.guesses.length;
-  const guessesLeft = Math.max(0, MAX_GUESSES - guessesUsed);
+  const guessesLeft = Math.max(0, maxGuesses - guessesUsed);
   const isCompleted = gameState.playerState.completed;
   const isExhausted = guessesLeft <= 0;
   const isGameOver = isCompleted || isExhausted;
-  const hasSubmittedClue = gameState.communityClues.some((c) => c.author === "local-player");
+  const isHardMode = gameState.playerState.hardMode;
+  const canChooseMode = guessesUsed === 0 && !isGameOver;
+  const cluesHidden = isHardMode && !isGameOver;
+  const clueAuthor = username ?? "local-player";
+  const hasSubmittedClue = gameState.communityClues.some((c) => c.author === clueAuthor);
+  const answerLength = gameState.puzzle.digest.answerLength;
+  // The answer only reaches the webview once the host reveals it; a solve already shows it.
+  const revealedAnswer = gameState.puzzle.answer ?? gameState.playerState.guesses.find((g) => g.correct)?.text;
 
   const visibleHints = useMemo(
     () =>
@@ -98,7 +115,7 @@ export function GameBoard({
           <div className="completed-banner-text">
             <h3>Puzzle Solved!</h3>
             <p>
-              The answer was <strong>"{gameState.puzzle.answer}"</strong> — you
+              The answer was <strong>"{revealedAnswer}"</strong> — you
               got it in {guessesUsed} {guessesUsed === 1 ? "guess" : "guesses"}.
             </p>
           </div>
@@ -111,8 +128,14 @@ export function GameBoard({
           <div className="failed-banner-text">
             <h3>Not This Time</h3>
             <p>
-              The answer was <strong>"{gameState.puzzle.answer}"</strong>. Come
-              back tomorrow for a new puzzle!
+              {revealedAnswer ? (
+                <>
+                  The answer was <strong>"{revealedAnswer}"</strong>.
+                </>
+              ) : (
+                "Revealing the answer…"
+              )}{" "}
+              Come back tomorrow for a new puzzle!
             </p>
           </div>
         </div>
@@ -136,18 +159,25 @@ export function GameBoard({
         <ul className="hints-list">
           {gameState.puzzle.hints.map((hint, index) => {
             const isVisible = index < visibleHints.length;
+            const canUnlock = !isVisible && !isGameOver && !isHardMode;
             return (
               <li
                 key={`hint-${index}`}
                 className={`hint-item ${isVisible ? "" : "hint-locked"}`}
-                onClick={!isVisible && !isGameOver ? handleUnlockHint : undefined}
-                role={!isVisible ? "button" : undefined}
-                tabIndex={!isVisible && !isGameOver ? 0 : undefined}
-                aria-label={!isVisible ? `Unlock hint ${index + 1}` : undefined}
+                onClick={canUnlock ? handleUnlockHint : undefined}
+                role={canUnlock ? "button" : undefined}
+                tabIndex={canUnlock ? 0 : undefined}
+                aria-label={canUnlock ? `Unlock hint ${index + 1}` : undefined}
               >
                 <span className="hint-number">{index + 1}</span>
                 <span className="hint-text">
-                  {isVisible ? hint : "Tap to unlock this hint"}
+                  {isVisible
+                    ? hint
+                    : isHardMode
+                      ? "Locked in hard mode"
+                      : hintCost > 0
+                        ? `Tap to unlock this hint (−${hintCost} points)`
+                        : "Tap to unlock this hint"}
                 </span>
               </li>
             );
@@ -162,6 +192,25 @@ export function GameBoard({
             </span>
           ))}
         </div>
+
+        {/* Hard Mode — chosen before the first guess, then locked for the day */}
+        {canChooseMode && onHardModeToggle ? (
+          <button
+            type="button"
+            className={`btn ${isHardMode ? "btn-primary" : "btn-outline"}`}
+            style={{ marginTop: "var(--sp-4)", width: "100%" }}
+            onClick={() => onHardModeToggle(!isHardMode)}
+            aria-pressed={isHardMode}
+          >
+            ⚡ Hard mode: {isHardMode ? "On" : "Off"} — no extra hints, clues hidden, ×1.25 score
+          </button>
+        ) : (
+          isHardMode && (
+            <span className="card-badge badge-warning" style={{ marginTop: "var(--sp-3)" }}>
+              ⚡ Hard mode
+            </span>
+          )
+        )}
       </div>
 
       {/* ─── Guess Section ─── */}
@@ -169,7 +218,7 @@ export function GameBoard({
         <div className="card-header">
           <h3 className="card-title">Your Guesses</h3>
           <div className="guess-slots" aria-label={`${guessesLeft} guesses remaining`}>
-            {Array.from({ length: MAX_GUESSES }, (_, i) => {
+            {Array.from({ length: maxGuesses }, (_, i) => {
               const g = gameState.playerState.guesses[i];
               let cls = "guess-slot";
               if (g) cls += g.correct ? " correct" : " used";
@@ -188,9 +237,30 @@ export function GameBoard({
                 style={{ animationDelay: `${i * 80}ms` }}
               >
                 <span className="guess-icon">
-                  {g.correct ? "✅" : "❌"}
+                  {g.correct ? "✅" : g.close ? "🤏" : "❌"}
                 </span>
-                <span>{g.text}</span>
+                {g.letters ? (
+                  <span className="letter-tiles" aria-label={g.text}>
+                    {g.text
+                      .toLowerCase()
+                      .replace(/[^a-z0-9]/g, "")
+                      .split("")
+                      .map((letter, j) => (
+                        <span
+                          key={`tile-${i}-${j}`}
+                          className={`letter-tile letter-${g.letters?.[j] ?? "absent"}`}
+                          style={{ animationDelay: `${j * 60}ms` }}
+                        >
+                          {letter}
+                        </span>
+                      ))}
+                    {Array.from({ length: Math.max(0, answerLength - g.letters.length) }, (_, j) => (
+                      <span key={`missing-${i}-${j}`} className="letter-tile letter-missing" aria-hidden="true" />
+                    ))}
+                  </span>
+                ) : (
+                  <span>{g.text}</span>
+                )}
               </div>
             ))}
           </div>
@@ -245,19 +315,54 @@ export function GameBoard({
           </span>
         </div>
 
-        {gameState.communityClues.length > 0 ? (
+        {cluesHidden ? (
+          <p style={{ color: "var(--text-tertiary)", fontSize: "var(--text-sm)" }}>
+            ⚡ Hard mode — community clues unlock when your game ends.
+          </p>
+        ) : gameState.communityClues.length > 0 ? (
           <ul className="clue-list">
             {gameState.communityClues.map((clue) => (
               <li key={clue.id} className="clue-item">
                 <div className="clue-votes">
-                  <button className="clue-vote-btn" aria-label="Upvote" type="button">▲</button>
+                  {/* Pressing the active arrow again withdraws the vote */}
+                  <button
+                    className={`clue-vote-btn${clue.myVote === 1 ? " is-up" : ""}`}
+                    aria-label="Upvote"
+                    aria-pressed={clue.myVote === 1}
+                    type="button"
+                    onClick={() => onClueVote?.(clue.id, clue.myVote === 1 ? 0 : 1)}
+                  >
+                    ▲
+                  </button>
                   <span className="clue-vote-count">{clue.upvotes}</span>
-                  <button className="clue-vote-btn" aria-label="Downvote" type="button">▼</button>
+                  <button
+                    className={`clue-vote-btn${clue.myVote === -1 ? " is-down" : ""}`}
+                    aria-label="Downvote"
+                    aria-pressed={clue.myVote === -1}
+                    type="button"
+                    onClick={() => onClueVote?.(clue.id, clue.myVote === -1 ? 0 : -1)}
+                  >
+                    ▼
+                  </button>
                 </div>
                 <div>
                   <div className="clue-text">{clue.text}</div>
                   <div className="clue-author">
-                    by {clue.author === "local-player" ? "you" : clue.author}
+                    by {clue.author === clueAuthor ? "you" : clue.author}
+                    {!clue.approved && <span className="clue-pending">· awaiting mod approval</span>}
+                    {onClueReport && clue.author !== clueAuthor && (
+                      <button
+                        type="button"
+                        className="clue-report-btn"
+                        disabled={reportedClues.includes(clue.id)}
+                        onClick={() => {
+                          setReportedClues((ids) => [...ids, clue.id]);
+                          onClueReport(clue.id);
+                        }}
+                      >
+                        {reportedClues.includes(clue.id) ? "Reported" : "⚑ Report"}
+                      </button>
+                    )}
                   </div>
                 </div>
               </li>
@@ -270,7 +375,11 @@ export function GameBoard({
         )}
 
         {/* Submit clue */}
-        {!hasSubmittedClue ? (
+        {!clueSubmission ? (
+          <p style={{ color: "var(--text-tertiary)", fontSize: "var(--text-sm)", marginTop: "var(--sp-4)" }}>
+            Clue submission is turned off in this subreddit.
+          </p>
+        ) : !hasSubmittedClue ? (
           <>
             {!showClueSection ? (
               <button
@@ -0,0 +1,163 @@
+import { useEffect, useState } from "react";
+import type { LeaderboardEntry, LeaderboardResponse } from "../types";
+
+interface LeaderboardPanelProps {
+    dayKey: string;
+    board: LeaderboardResponse | null;
+    isLoading: boolean;
+    error: string | null;
+    isAvailable: boolean;
+    onRequestPage: (dayKey: string, page: number, hardMode: boolean) => void;
+    onClose: () => void;
+}
+
+function formatTime(seconds: number) {
+    const m = Math.floor(seconds / 60);
+    const s = seconds % 60;
+    return `${m}:${s.toString().padStart(2, "0")}`;
+}
+
+function ChangeMark({ change }: { change: number }) {
+    if (change > 0) return <span className="leaderboard-change up" aria-label={`Up ${change} since yesterday`}>▲{change}</span>;
+    if (change < 0) return <span className="leaderboard-change down" aria-label={`Down ${-change} since yesterday`}>▼{-change}</span>;
+    return <span className="leaderboard-change" aria-label="No change since yesterday">–</span>;
+}
+
+function LeaderboardRow({ entry, isPlayer }: { entry: LeaderboardEntry; isPlayer: boolean }) {
+    return (
+        <li className={`leaderboard-row${isPlayer ? " is-player" : ""}`} aria-current={isPlayer ? "true" : undefined}>
+            <span className="leaderboard-rank">#{entry.rank}</span>
+            <span className="leaderboard-name">
+                {entry.player.username}
+                {isPlayer && <span className="leaderboard-you">You</span>}
+            </span>
+            <ChangeMark change={entry.change} />
+            <span className="leaderboard-time">{formatTime(entry.time)}</span>
+            <span className="leaderboard-score">{entry.score}</span>
+        </li>
+    );
+}
+
+export function LeaderboardPanel({
+    dayKey,
+    board,
+    isLoading,
+    error,
+    isAvailable,
+    onRequestPage,
+    onClose,
+}: LeaderboardPanelProps) {
+    const [hardMode, setHardMode] = useState(false);
+
+    useEffect(() => {
+        onRequestPage(dayKey, 0, hardMode);
+    }, [dayKey, hardMode, onRequestPage]);
+
+    // Ignore a board left over from another day or tab until the new one arrives
+    const current = board && board.dayKey === dayKey && board.hardMode === hardMode ? board : null;
+    const pageCount = current ? Math.max(1, Math.ceil(current.totalPlayers / current.pageSize)) : 1;
+    const playerPage = current?.playerRank ? Math.floor((current.playerRank - 1) / current.pageSize) : null;
+    const playerOnPage = current?.playerEntry
+        ? current.entries.some((entry) => entry.rank === current.playerRank)
+        : false;
+
+    return (
+        <div className="modal-overlay" onClick={onClose} role="dialog" aria-modal="true" aria-label="Leaderboard">
+            <div className="modal-card leaderboard-card" onClick={(e) => e.stopPropagation()}>
+                <h2 className="result-title">🏆 Leaderboard</h2>
+                <p style={{ color: "var(--text-secondary)", fontSize: "var(--text-sm)" }}>
+                    Verified scores for {dayKey}. Arrows show places gained or lost since yesterday.
+                </p>
+
+                <div className="leaderboard-tabs" role="tablist">
+                    <button
+                        type="button"
+                        role="tab"
+                        aria-selected={!hardMode}
+                        className={`btn ${hardMode ? "btn-ghost" : "btn-outline"}`}
+                        onClick={() => setHardMode(false)}
+                    >
+                        Classic
+                    </button>
+                    <button
+                        type="button"
+                        role="tab"
+                        aria-selected={hardMode}
+                        className={`btn ${hardMode ? "btn-outline" : "btn-ghost"}`}
+                        onClick={() => setHardMode(true)}
+                    >
+                        ⚡ Hard mode
+                    </button>
+                </div>
+
+                {!isAvailable ? (
+                    <p className="leaderboard-empty">Leaderboards are available when you play on Reddit.</p>
+                ) : error ? (
+                    <p className="leaderboard-empty" role="alert">{error}</p>
+                ) : !current ? (
+                    <p className="leaderboard-empty">{isLoading ? "Loading scores…" : "No scores yet."}</p>
+                ) : current.totalPlayers === 0 ? (
+                    <p className="leaderboard-empty">No verified solves yet — be the first!</p>
+                ) : (
+                    <>
+                        <ol className="leaderboard-list" aria-busy={isLoading}>
+                            {current.entries.map((entry) => (
+                                <LeaderboardRow key={entry.rank} entry={entry} isPlayer={entry.rank === current.playerRank} />
+                            ))}
+                        </ol>
+
+                        {current.playerEntry && !playerOnPage && (
+                            <ol className="leaderboard-list leaderboard-pinned">
+                                <LeaderboardRow entry={current.playerEntry} isPlayer />
+                            </ol>
+                        )}
+
+                        <div className="leaderboard-pager">
+                            <button
+                                type="button"
+                                className="btn btn-ghost"
+                                onClick={() => onRequestPage(dayKey, current.page - 1, hardMode)}
+                                disabled={isLoading || current.page === 0}
+                                aria-label="Previous page"
+                            >
+                                ‹
+                            </button>
+                            <span>
+                                Page {current.page + 1} of {pageCount} · {current.totalPlayers} players
+                            </span>
+                            <button
+                                type="button"
+                                className="btn btn-ghost"
+                                onClick={() => onRequestPage(dayKey, current.page + 1, hardMode)}
+                                disabled={isLoading || current.page >= pageCount - 1}
+                                aria-label="Next page"
+                            >
+                                ›
+                            </button>
+                        </div>
+
+                        {playerPage !== null && playerPage !== current.page && (
+                            <button
+                                type="button"
+                                className="btn btn-outline leaderboard-jump"
+                                onClick={() => onRequestPage(dayKey, playerPage, hardMode)}
+                                disabled={isLoading}
+                            >
+                                Jump to my rank (#{current.playerRank})
+                            </button>
+                        )}
+                    </>
+                )}
+
+                <button
+                    className="btn btn-ghost"
+                    onClick={onClose}
+                    style={{ marginTop: "var(--sp-4)", width: "100%" }}
+                    type="button"
+                >
+                    Close
+                </button>
+            </div>
+        </div>
+    );
+}
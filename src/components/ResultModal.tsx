@@ -1,24 +1,44 @@
-import type { DailyGameState } from "../types";
+import type { DailyGameState, LetterState, ScoreLineItem } from "../types";
+
+const LETTER_EMOJI: Record<LetterState, string> = {
+    correct: "🟩",
+    present: "🟨",
+    absent: "⬛",
+};
+
+function formatReceiptValue(item: ScoreLineItem) {
+    if (typeof item.multiplier === "number") return `×${item.multiplier.toFixed(2)}`;
+    const points = item.points ?? 0;
+    return points > 0 ? `+${points}` : points < 0 ? `−${Math.abs(points)}` : "0";
+}
 
 interface ResultModalProps {
     gameState: DailyGameState;
+    /** Where the game is running; shares go back to it */
+    subreddit?: string | null;
     onClose: () => void;
     onShare: (platform: string) => void;
 }
 
-export function ResultModal({ gameState, onClose, onShare }: ResultModalProps) {
+export function ResultModal({ gameState, subreddit, onClose, onShare }: ResultModalProps) {
     const won = gameState.playerState.completed;
     const guessCount = gameState.playerState.guesses.length;
     const score = gameState.playerState.score;
     const streak = gameState.playerState.streak;
+    const breakdown = gameState.playerState.scoreBreakdown;
 
-    const emojiGrid = gameState.playerState.guesses
-        .map((g) => (g.correct ? "🟩" : "🟥"))
-        .join("");
+    const emojiGrid = gameState.feedbackMode === "letters"
+        ? gameState.playerState.guesses
+            .map((g) => (g.letters ?? []).map((state) => LETTER_EMOJI[state]).join("") || (g.correct ? "🟩" : "🟥"))
+            .join("\n")
+        : gameState.playerState.guesses
+            .map((g) => (g.correct ? "🟩" : "🟥"))
+            .join("");
 
+    const modeMark = `${gameState.playerState.hardMode ? " ⚡" : ""}${gameState.isArchive ? " (archive)" : ""}`;
     const shareText = won
-        ? `🧩 ThreadPulse Daily ${gameState.dayKey}\n\n${emojiGrid}\n\nScore: ${score} | Streak: 🔥${streak}\n\n#ThreadPulseDaily #RedditGames`
-        : `🧩 ThreadPulse Daily ${gameState.dayKey}\n\n${emojiGrid}\n\nBetter luck tomorrow!\n\n#ThreadPulseDaily #RedditGames`;
+        ? `🧩 ThreadPulse Daily ${gameState.dayKey}${modeMark}\n\n${emojiGrid}\n\nScore: ${score} | Streak: 🔥${streak}\n\n#ThreadPulseDaily #RedditGames`
+        : `🧩 ThreadPulse Daily ${gameState.dayKey}${modeMark}\n\n${emojiGrid}\n\nBetter luck tomorrow!\n\n#ThreadPulseDaily #RedditGames`;
 
     const handleCopy = async () => {
         try {
@@ -37,7 +57,8 @@ export function ResultModal({ gameState, onClose, onShare }: ResultModalProps) {
     };
 
     const handleRedditShare = () => {
-        const url = `https://www.reddit.com/submit?title=${encodeURIComponent(
+        const submitPath = subreddit ? `/r/${encodeURIComponent(subreddit)}/submit` : "/submit";
+        const url = `https://www.reddit.com${submitPath}?title=${encodeURIComponent(
             `ThreadPulse Daily ${gameState.dayKey} — Score: ${score}`
         )}&selftext=true&text=${encodeURIComponent(shareText)}`;
         window.open(url, "_blank", "width=600,height=500");
@@ -60,11 +81,13 @@ export function ResultModal({ gameState, onClose, onShare }: ResultModalProps) {
                 <p style={{ color: "var(--text-secondary)", fontSize: "var(--text-sm)", marginBottom: "var(--sp-2)" }}>
                     {won
                         ? `You solved it in ${guessCount} ${guessCount === 1 ? "guess" : "guesses"}!`
-                        : `The answer was "${gameState.puzzle.answer}"`}
+                        : gameState.puzzle.answer
+                            ? `The answer was "${gameState.puzzle.answer}"`
+                            : "Revealing the answer…"}
                 </p>
 
                 {/* Emoji Grid */}
-                <div style={{ fontSize: "1.5rem", letterSpacing: "4px", margin: "var(--sp-4) 0" }}>
+                <div style={{ fontSize: "1.5rem", letterSpacing: "4px", margin: "var(--sp-4) 0", whiteSpace: "pre-line", lineHeight: 1.2 }}>
                     {emojiGrid}
                 </div>
 
@@ -84,12 +107,38 @@ export function ResultModal({ gameState, onClose, onShare }: ResultModalProps) {
                     </div>
                     <div className="result-stat">
                         <div className="result-stat-value">
-                            {guessCount}/6
+                            {guessCount}/{gameState.rules.maxGuesses}
                         </div>
                         <div className="result-stat-label">Guesses</div>
                     </div>
                 </div>
 
+                {/* Score Receipt */}
+                {won && breakdown && (
+                    <div className="score-receipt" aria-label="Score breakdown">
+                        {breakdown.items.map((item, i) => (
+                            <div
+                                key={item.kind}
+                                className={`receipt-line receipt-${item.kind}`}
+                                style={{ animationDelay: `${300 + i * 120}ms` }}
+                            >
+                                <div className="receipt-label">
+                                    <span>{item.label}</span>
+                                    <span className="receipt-rule">{item.rule}</span>
+                                </div>
+                                <span className="receipt-value">{formatReceiptValue(item)}</span>
+                            </div>
+                        ))}
+                        <div
+                            className="receipt-line receipt-total"
+                            style={{ animationDelay: `${300 + breakdown.items.length * 120}ms` }}
+                        >
+                            <span className="receipt-label">Total</span>
+                            <span className="receipt-value">{breakdown.total}</span>
+                        </div>
+                    </div>
+                )}
+
                 {/* Share Buttons */}
                 <div className="share-grid">
                     <button className="share-btn share-btn-reddit" onClick={handleRedditShare} type="button">
@@ -1,19 +1,57 @@
-import { puzzleBank } from "../data/puzzleBank";
-import { CommunityClue, Puzzle } from "../types";
+import type { Puzzle as BankPuzzle } from "../data/puzzleBank";
+import { publicPuzzleBank, type PublicPuzzle } from "../data/publicPuzzleBank";
+import {
+    puzzleSchedule,
+    type CustomBankMode,
+    type CustomPuzzleBank,
+    type PuzzleSchedule,
+    type ScheduleVersion
+} from "../data/puzzleSchedule";
+import { AnswerDigest, CommunityClue, FeedbackMode, GameRules, LetterState, Puzzle, ScoreBreakdown, ScoreLineItem, StreakRecord } from "../types";
+import { DEFAULT_GAME_RULES } from "./gameRules";
 
 const BLOCKED_TERMS = ["http://", "https://", "discord.gg", "t.me/"];
+const HARD_MODE_MULTIPLIER = 1.25;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// In merge mode custom puzzles land every other day, with default puzzles in between
+const MERGE_LANDING_GAP_DAYS = 2;
+const SUBREDDIT_TAG_PATTERN = /^r\/[A-Za-z0-9_]{2,21}$/;
 
-export interface DailyResult {
+export interface DailyResult<P extends BankEntry = PublicPuzzle> {
     dayKey: string;
     seed: number;
     index: number;
-    puzzle: Puzzle;
+    scheduleVersion: number;
+    pinned: boolean;
+    puzzle: P;
 }
 
+export interface LetterFeedback {
+    letter: string;
+    state: LetterState;
+}
+
+export type CloseReason = "listed" | "plural" | "variant" | "typo";
+
 export interface GuessEvaluation {
     normalizedGuess: string;
     normalizedAnswer: string;
     correct: boolean;
+    close: boolean;
+    closeReason: CloseReason | null;
+    letters: LetterFeedback[];
+    lengthDelta: number;
+}
+
+export interface GuessInput {
+    guess: string;
+    /** Plaintext answer; only needed for letter feedback when a digest is given. */
+    answer?: string;
+    /** When present, correctness and near-misses are decided from hashes alone. */
+    digest?: AnswerDigest;
+    acceptedAnswers?: string[];
+    nearMisses?: string[];
+    detectClose?: boolean;
 }
 
 export interface ScoreParams {
@@ -21,18 +59,34 @@ export interface ScoreParams {
     hintsUsed: number;
     timeSeconds: number;
     streakDays: number;
+    difficulty?: number;
+    hardMode?: boolean;
+    /** The install's hint cost and timer; the defaults when omitted */
+    rules?: Pick<GameRules, "hintCost" | "timer" | "timePenaltyCap">;
 }
 
+
 export interface CommunityClueOptions {
     forbiddenWords?: string[];
+    forbiddenDigest?: AnswerDigest;
     existingClues?: string[];
 }
 
+export interface RankClueOptions {
+    /** When the subreddit pre-approves clues, unapproved ones are left out */
+    requireApproval?: boolean;
+}
+
 export interface ValidationResult {
     valid: boolean;
     reason: string;
 }
 
+export interface BankLintIssue {
+    puzzleId: string;
+    message: string;
+}
+
 export interface Snapshot {
     dayKey: string;
     puzzleId: string;
@@ -73,49 +127,639 @@ function normalizeText(value = "") {
     return value.toLowerCase().replace(/[^a-z0-9]/g, "").trim();
 }
 
-export function pickDailyPuzzle(inputDate = new Date(), bank = puzzleBank): DailyResult {
-    if (!Array.isArray(bank) || bank.length === 0) {
-        throw new Error("Puzzle bank cannot be empty.");
+function shiftUtcDay(dayKey: string, days: number): string {
+    const d = new Date(`${dayKey}T00:00:00Z`);
+    d.setUTCDate(d.getUTCDate() + days);
+    return toUtcDayKey(d);
+}
+
+/** Selection only needs ids and categories, so it works on the public and the plaintext bank alike. */
+export interface BankEntry {
+    id: string;
+    category: string;
+}
+
+export function resolveScheduleVersion(dayKey: string, schedule: PuzzleSchedule = puzzleSchedule): ScheduleVersion {
+    if (!Array.isArray(schedule.versions) || schedule.versions.length === 0) {
+        throw new Error("Puzzle schedule must have at least one version.");
     }
 
-    const dayKey = toUtcDayKey(inputDate);
-    const seed = daySeed(dayKey);
-    const rng = mulberry32(seed);
-    const index = Math.floor(rng() * bank.length);
-    const puzzle = bank[index] as Puzzle; // explicit cast since we know bank contains Puzzles
+    const sorted = [...schedule.versions].sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+    let active = sorted[0];
+    for (const version of sorted) {
+        if (version.effectiveFrom <= dayKey) active = version;
+    }
+    return active;
+}
+
+/** The first day any schedule version covers; archive play cannot go earlier. */
+export function firstScheduledDay(schedule: PuzzleSchedule = puzzleSchedule): string {
+    return resolveScheduleVersion("0000-00-00", schedule).effectiveFrom;
+}
 
+function buildDailyResult<P extends BankEntry>(dayKey: string, bank: readonly P[], index: number, version: ScheduleVersion, pinned: boolean): DailyResult<P> {
     return {
         dayKey,
-        seed,
+        seed: daySeed(dayKey),
         index,
-        puzzle
+        scheduleVersion: version.version,
+        pinned,
+        puzzle: bank[index]
     };
 }
 
+function findPinnedIndex(dayKey: string, bank: readonly BankEntry[], schedule: PuzzleSchedule) {
+    const pinnedId = schedule.assignments?.[dayKey];
+    return pinnedId ? bank.findIndex((item) => item.id === pinnedId) : -1;
+}
+
+// Only the puzzles that existed when a version was published are eligible,
+// so appending to the bank never changes an assigned day.
+function versionPoolSize(version: ScheduleVersion, bank: readonly BankEntry[]) {
+    return Math.max(1, Math.min(version.bankSize, bank.length));
+}
+
+function pickByHash<P extends BankEntry>(dayKey: string, bank: readonly P[], schedule: PuzzleSchedule, version: ScheduleVersion): DailyResult<P> {
+    const pinnedIndex = findPinnedIndex(dayKey, bank, schedule);
+    if (pinnedIndex >= 0) return buildDailyResult(dayKey, bank, pinnedIndex, version, true);
+
+    const rng = mulberry32(daySeed(dayKey));
+    const index = Math.floor(rng() * versionPoolSize(version, bank));
+    return buildDailyResult(dayKey, bank, index, version, false);
+}
+
+function rotationEpoch(schedule: PuzzleSchedule): string | null {
+    const starts = schedule.versions
+        .filter((version) => version.strategy === "rotation")
+        .map((version) => version.effectiveFrom)
+        .sort();
+    return starts[0] ?? null;
+}
+
+/** Where a rotation walk has got to, so the next pick carries on from there */
+interface RotationWalk {
+    history: DailyResult<BankEntry>[];
+    deck: Set<number>;
+    dealt: Set<number>;
+    poolSize: number;
+    /** Every walked day from the epoch on */
+    days: Map<string, DailyResult<BankEntry>>;
+    /** The first day not walked yet */
+    next: string;
+}
+
+// One walk per schedule and bank. Both are append-only constants, so a walked
+// day never changes and each pick only walks the days since the last one.
+const rotationWalks = new WeakMap<PuzzleSchedule, WeakMap<readonly BankEntry[], RotationWalk>>();
+
+function startRotationWalk(epoch: string, bank: readonly BankEntry[], schedule: PuzzleSchedule): RotationWalk {
+    // Seed the history with the days before the rotation started so the
+    // switch-over does not immediately repeat a recent puzzle.
+    const leadIn = Math.floor(versionPoolSize(resolveScheduleVersion(epoch, schedule), bank) / 2);
+    const history: DailyResult<BankEntry>[] = [];
+    for (let offset = leadIn; offset > 0; offset -= 1) {
+        const dayKey = shiftUtcDay(epoch, -offset);
+        history.push(pickByHash(dayKey, bank, schedule, resolveScheduleVersion(dayKey, schedule)));
+    }
+    return { history, deck: new Set(), dealt: new Set(), poolSize: 0, days: new Map(), next: epoch };
+}
+
+/**
+ * Walks the rotation forward one day at a time up to `untilDayKey`. Every day
+ * is seeded by its own `dayKey`, so the walk is fully deterministic.
+ *
+ * Without `cooldownDays` the rotation deals from a deck: no puzzle repeats
+ * until every puzzle in the version's pool has been used, and a new deck keeps
+ * at least half a pool of days between repeats. With `cooldownDays` a puzzle
+ * is eligible again once it has been off the schedule that long.
+ * Consecutive days avoid sharing a category whenever another candidate exists.
+ */
+function advanceRotationWalk(walk: RotationWalk, untilDayKey: string, bank: readonly BankEntry[], schedule: PuzzleSchedule) {
+    const { history, deck, dealt } = walk;
+    for (let dayKey = walk.next; dayKey <= untilDayKey; dayKey = shiftUtcDay(dayKey, 1)) {
+        const version = resolveScheduleVersion(dayKey, schedule);
+        const nextPoolSize = versionPoolSize(version, bank);
+
+        // Puzzles added by a newer version join the current deck immediately.
+        for (let index = walk.poolSize; index < nextPoolSize; index += 1) {
+            if (!dealt.has(index)) deck.add(index);
+        }
+        const poolSize = (walk.poolSize = nextPoolSize);
+
+        const usedWithin = (days: number) =>
+            new Set(history.slice(Math.max(0, history.length - days)).map((item) => item.index));
+
+        let result: DailyResult<BankEntry>;
+        const pinnedIndex = findPinnedIndex(dayKey, bank, schedule);
+        if (pinnedIndex >= 0) {
+            result = buildDailyResult(dayKey, bank, pinnedIndex, version, true);
+        } else if (version.strategy !== "rotation") {
+            result = pickByHash(dayKey, bank, schedule, version);
+        } else {
+            let candidates: number[];
+            if (version.cooldownDays && version.cooldownDays > 0) {
+                const recent = usedWithin(Math.min(version.cooldownDays, poolSize - 1));
+                candidates = Array.from({ length: poolSize }, (_, index) => index).filter((index) => !recent.has(index));
+            } else {
+                if (deck.size === 0) {
+                    for (let index = 0; index < poolSize; index += 1) deck.add(index);
+                    dealt.clear();
+                }
+                const recent = usedWithin(Math.floor(poolSize / 2));
+                const spaced = [...deck].filter((index) => !recent.has(index));
+                candidates = (spaced.length > 0 ? spaced : [...deck]).sort((a, b) => a - b);
+            }
+
+            const previousCategory = history[history.length - 1]?.puzzle.category;
+            const fresh = candidates.filter((index) => bank[index].category !== previousCategory);
+            const pool = fresh.length > 0 ? fresh : candidates;
+            const rng = mulberry32(daySeed(dayKey));
+            const index = pool[Math.floor(rng() * pool.length)];
+            result = buildDailyResult(dayKey, bank, index, version, false);
+        }
+
+        deck.delete(result.index);
+        dealt.add(result.index);
+        history.push(result);
+        walk.days.set(dayKey, result);
+        walk.next = shiftUtcDay(dayKey, 1);
+    }
+}
+
+/** The rotation's pick for `dayKey`, or null before the first rotation version. */
+function rotationDay<P extends BankEntry>(dayKey: string, bank: readonly P[], schedule: PuzzleSchedule): DailyResult<P> | null {
+    const epoch = rotationEpoch(schedule);
+    if (!epoch || dayKey < epoch) return null;
+
+    let walks = rotationWalks.get(schedule);
+    if (!walks) rotationWalks.set(schedule, (walks = new WeakMap()));
+    let walk = walks.get(bank);
+    if (!walk) walks.set(bank, (walk = startRotationWalk(epoch, bank, schedule)));
+
+    if (dayKey >= walk.next) advanceRotationWalk(walk, dayKey, bank, schedule);
+    return walk.days.get(dayKey) as DailyResult<P>;
+}
+
+export function pickDailyPuzzle<P extends BankEntry = PublicPuzzle>(
+    inputDate = new Date(),
+    bank: readonly P[] = publicPuzzleBank as unknown as P[],
+    schedule: PuzzleSchedule = puzzleSchedule
+): DailyResult<P> {
+    if (!Array.isArray(bank) || bank.length === 0) {
+        throw new Error("Puzzle bank cannot be empty.");
+    }
+
+    const dayKey = toUtcDayKey(inputDate);
+    return rotationDay(dayKey, bank, schedule) ?? pickByHash(dayKey, bank, schedule, resolveScheduleVersion(dayKey, schedule));
+}
+
+/** Every day from `startDate` for `days` days, as pickDailyPuzzle would pick them. Used by `npm run schedule`. */
+export function planDailySchedule<P extends BankEntry = PublicPuzzle>(
+    startDate = new Date(),
+    days = 365,
+    bank: readonly P[] = publicPuzzleBank as unknown as P[],
+    schedule: PuzzleSchedule = puzzleSchedule
+): DailyResult<P>[] {
+    const startKey = toUtcDayKey(startDate);
+    return Array.from({ length: Math.max(0, days) }, (_, offset) =>
+        pickDailyPuzzle(new Date(`${shiftUtcDay(startKey, offset)}T12:00:00Z`), bank, schedule)
+    );
+}
+
+// ─── Custom Puzzle Banks ────────────────────────────────────────
+
+/** The custom bank mode in effect on `dayKey`; a bank starts out merged. */
+export function customBankMode(dayKey: string, custom: Pick<CustomPuzzleBank<unknown>, "modes"> | null): CustomBankMode {
+    let active: { effectiveFrom: string; mode: CustomBankMode } = { effectiveFrom: "", mode: "merge" };
+    for (const version of custom?.modes ?? []) {
+        if (version.effectiveFrom <= dayKey && version.effectiveFrom >= active.effectiveFrom) active = version;
+    }
+    return active.mode;
+}
+
+/** The day a custom puzzle added on `todayKey` is pinned to: never before tomorrow, and after every other custom puzzle. */
+export function nextLandingDay(custom: CustomPuzzleBank<unknown> | null, todayKey: string): string {
+    const tomorrow = shiftUtcDay(todayKey, 1);
+    const last = (custom?.puzzles ?? []).reduce((latest, item) => (item.landsOn > latest ? item.landsOn : latest), "");
+    if (!last) return tomorrow;
+
+    const gap = customBankMode(shiftUtcDay(last, 1), custom) === "replace" ? 1 : MERGE_LANDING_GAP_DAYS;
+    const next = shiftUtcDay(last, gap);
+    return next > tomorrow ? next : tomorrow;
+}
+
+/**
+ * The day's puzzle for a subreddit with its own bank. A custom puzzle pinned
+ * to the day always wins. Otherwise `merge` uses the default schedule, and
+ * `replace` cycles through the custom puzzles that landed before the day in
+ * landing order, so adding a puzzle never changes a day already played.
+ */
+export function pickSubredditPuzzle<P extends BankEntry = PublicPuzzle>(
+    inputDate = new Date(),
+    custom: CustomPuzzleBank<P> | null = null,
+    bank: readonly P[] = publicPuzzleBank as unknown as P[],
+    schedule: PuzzleSchedule = puzzleSchedule
+): DailyResult<P> {
+    const dayKey = toUtcDayKey(inputDate);
+    const puzzles = custom?.puzzles ?? [];
+    const version = resolveScheduleVersion(dayKey, schedule);
+
+    const pinnedIndex = puzzles.findIndex((item) => item.landsOn === dayKey);
+    if (pinnedIndex >= 0) return buildDailyResult(dayKey, puzzles, pinnedIndex, version, true);
+
+    if (customBankMode(dayKey, custom) === "replace") {
+        const landed = puzzles
+            .filter((item) => item.landsOn < dayKey)
+            .sort((a, b) => a.landsOn.localeCompare(b.landsOn));
+        if (landed.length > 0) {
+            // Each landing restarts the cycle from the oldest puzzle, so the
+            // one that just landed is never replayed the next day
+            const latest = landed[landed.length - 1].landsOn;
+            const daysSince = Math.round((Date.parse(dayKey) - Date.parse(latest)) / DAY_MS);
+            const index = puzzles.indexOf(landed[(daysSince - 1) % landed.length]);
+            return buildDailyResult(dayKey, puzzles, index, version, false);
+        }
+    }
+
+    return pickDailyPuzzle(inputDate, bank, schedule);
+}
+
+/**
+ * Checks puzzles before they join a bank: every field a player sees is filled
+ * in, hints pass the community clue rules and never contain the answer, and
+ * no answer is shared with another puzzle or with `reservedAnswers`.
+ */
+export function lintPuzzleBank(puzzles: readonly BankPuzzle[], reservedAnswers: readonly string[] = []): BankLintIssue[] {
+    const issues: BankLintIssue[] = [];
+    const seenIds = new Set<string>();
+    // Normalized answer → the puzzle that uses it ("" for a reserved answer)
+    const seenAnswers = new Map<string, string>(reservedAnswers.map((answer) => [normalizeText(answer), ""]));
+
+    for (const puzzle of puzzles) {
+        const report = (message: string) => issues.push({ puzzleId: puzzle.id, message });
+
+        if (!puzzle.id) report("Puzzle has no id.");
+        else if (seenIds.has(puzzle.id)) report(`Puzzle id ${puzzle.id} is used twice.`);
+        seenIds.add(puzzle.id);
+
+        const answers = [puzzle.answer, ...(puzzle.acceptedAnswers ?? [])].map((item) => normalizeText(item)).filter(Boolean);
+        const answerLength = normalizeText(puzzle.answer).length;
+        if (answerLength < 3 || answerLength > 20) report("Answer must be 3 to 20 letters or digits.");
+        for (const answer of answers) {
+            const owner = seenAnswers.get(answer);
+            if (owner === undefined) seenAnswers.set(answer, puzzle.id);
+            else if (owner !== puzzle.id) report(owner ? `"${answer}" is already the answer to ${owner}.` : `"${answer}" is already the answer to a default puzzle.`);
+        }
+
+        const title = String(puzzle.title ?? "").trim();
+        if (title.length < 3 || title.length > 60) report("Title must be 3 to 60 characters.");
+        if (!/^[a-z0-9]+(-[a-z0-9]+)*$/.test(puzzle.category ?? "") || puzzle.category.length > 30) {
+            report("Category must be up to 30 lowercase letters or digits, with words joined by hyphens.");
+        }
+
+        const hints = Array.isArray(puzzle.hints) ? puzzle.hints : [];
+        if (hints.length !== 3) report("A puzzle needs exactly three hints.");
+        hints.forEach((hint, i) => {
+            const result = validateCommunityClue(hint, { forbiddenWords: answers });
+            if (!result.valid) report(result.reason.replace(/^Clue\b/, `Hint ${i + 1}`));
+        });
+
+        const tags = Array.isArray(puzzle.subredditTags) ? puzzle.subredditTags : [];
+        if (tags.length < 1 || tags.length > 5) report("A puzzle needs one to five subreddit tags.");
+        for (const tag of tags) {
+            if (!SUBREDDIT_TAG_PATTERN.test(tag)) report(`"${tag}" is not a subreddit tag like r/gaming.`);
+        }
+
+        if (!(puzzle.difficulty >= 0 && puzzle.difficulty <= 1)) report("Difficulty must be between 0 and 1.");
+    }
+
+    return issues;
+}
+
 export function getHintSet(puzzle: Puzzle, hintsUnlocked = 1): string[] {
     const hintCount = Math.max(1, Math.min(3, hintsUnlocked));
     return puzzle.hints.slice(0, hintCount);
 }
 
-export function evaluateGuess({ guess, answer }: { guess: string; answer: string }): GuessEvaluation {
+/**
+ * Wordle-style per-letter feedback over the normalized guess. Exact matches are
+ * claimed first so repeated letters are only marked present while unmatched
+ * copies remain in the answer. Letters past the end of the answer can still be
+ * present; the guess simply has more tiles than the answer.
+ */
+export function evaluateLetters(guess: string, answer: string): LetterFeedback[] {
+    const guessChars = normalizeText(guess).split("");
+    const answerChars = normalizeText(answer).split("");
+    const remaining = new Map<string, number>();
+    const states: LetterState[] = guessChars.map(() => "absent");
+
+    answerChars.forEach((char, i) => {
+        if (guessChars[i] === char) {
+            states[i] = "correct";
+        } else {
+            remaining.set(char, (remaining.get(char) || 0) + 1);
+        }
+    });
+
+    guessChars.forEach((char, i) => {
+        if (states[i] === "correct") return;
+        const left = remaining.get(char) || 0;
+        if (left > 0) {
+            states[i] = "present";
+            remaining.set(char, left - 1);
+        }
+    });
+
+    return guessChars.map((letter, i) => ({ letter, state: states[i] }));
+}
+
+/**
+ * The letter states a host verdict may carry for a guess. Classic feedback is
+ * only right or wrong, so it gets none: the states would give the answer away.
+ */
+export function verdictLetters(guess: string, answer: string, mode: FeedbackMode): LetterState[] | undefined {
+    return mode === "letters" ? evaluateLetters(guess, answer).map((item) => item.state) : undefined;
+}
+
+// Optimal string alignment distance: insertions, deletions, substitutions and
+// adjacent transpositions each cost one edit.
+function editDistance(a: string, b: string): number {
+    const rows = a.length + 1;
+    const cols = b.length + 1;
+    const d: number[][] = Array.from({ length: rows }, (_, i) => Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)));
+
+    for (let i = 1; i < rows; i += 1) {
+        for (let j = 1; j < cols; j += 1) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+            }
+        }
+    }
+    return d[rows - 1][cols - 1];
+}
+
+function typoAllowance(answerLength: number) {
+    if (answerLength >= 8) return 2;
+    if (answerLength >= 5) return 1;
+    return 0;
+}
+
+function stemWord(value: string) {
+    if (value.endsWith("ies") && value.length > 4) return `${value.slice(0, -3)}y`;
+    if (/(s|x|z|ch|sh)es$/.test(value)) return value.slice(0, -2);
+    if (value.endsWith("s") && !value.endsWith("ss")) return value.slice(0, -1);
+    return value;
+}
+
+// British/American spellings and doubled letters collapse to one canonical form.
+function canonicalSpelling(value: string) {
+    return value
+        .replace(/([a-z])\1+/g, "$1")
+        .replace(/our/g, "or")
+        .replace(/is(e|ing|ed)/g, "iz$1")
+        .replace(/ys(e|ing|ed)/g, "yz$1")
+        .replace(/ae/g, "e")
+        .replace(/re$/, "er");
+}
+
+function classifyCloseGuess(normalizedGuess: string, targets: string[], nearMisses: string[]): CloseReason | null {
+    if (nearMisses.some((item) => normalizeText(item) === normalizedGuess)) return "listed";
+    if (targets.some((target) => stemWord(target) === stemWord(normalizedGuess))) return "plural";
+    if (targets.some((target) => canonicalSpelling(target) === canonicalSpelling(normalizedGuess))) return "variant";
+    if (targets.some((target) => editDistance(normalizedGuess, target) <= typoAllowance(target.length))) return "typo";
+    return null;
+}
+
+// ─── Answer digests ─────────────────────────────────────────────
+// The webview bundle carries only salted hashes of each answer and its
+// variants, so answers cannot be read in DevTools. This hides answers from
+// casual inspection; the Devvit host keeps the plaintext and stays authoritative.
+
+// cyrb53: a fast 53-bit string hash, rendered as fixed-width hex.
+function cyrb53(value: string): string {
+    let h1 = 0xdeadbeef;
+    let h2 = 0x41c6ce57;
+    for (let i = 0; i < value.length; i += 1) {
+        const ch = value.charCodeAt(i);
+        h1 = Math.imul(h1 ^ ch, 2654435761);
+        h2 = Math.imul(h2 ^ ch, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+    h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+    h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, "0");
+}
+
+export function hashAnswer(salt: string, value: string): string {
+    return cyrb53(`${salt}:${normalizeText(value)}`);
+}
+
+// Every string reachable by deleting up to `depth` letters. Two words within
+// that many typos of each other share at least one entry, which lets typo
+// detection work on hashes without the answer.
+function deletionNeighbourhood(value: string, depth: number): Set<string> {
+    const seen = new Set([value]);
+    let frontier = [value];
+    for (let step = 0; step < depth; step += 1) {
+        const next: string[] = [];
+        for (const item of frontier) {
+            for (let i = 0; i < item.length; i += 1) {
+                const shorter = item.slice(0, i) + item.slice(i + 1);
+                if (!seen.has(shorter)) {
+                    seen.add(shorter);
+                    next.push(shorter);
+                }
+            }
+        }
+        frontier = next;
+    }
+    return seen;
+}
+
+function uniqueHashes(salt: string, values: Iterable<string>): string[] {
+    return [...new Set([...values].filter(Boolean).map((value) => hashAnswer(salt, value)))].sort();
+}
+
+/** Builds the hash-only view of an answer that ships to the webview. */
+export function buildAnswerDigest(puzzle: { id: string; answer: string; acceptedAnswers?: string[]; nearMisses?: string[] }): AnswerDigest {
+    const salt = puzzle.id;
+    const targets = [puzzle.answer, ...(puzzle.acceptedAnswers ?? [])].map((item) => normalizeText(item)).filter(Boolean);
+    const typoDepth = Math.max(0, ...targets.map((target) => typoAllowance(target.length)));
+
+    return {
+        salt,
+        answerHash: hashAnswer(salt, puzzle.answer),
+        answerLength: normalizeText(puzzle.answer).length,
+        acceptedHashes: uniqueHashes(salt, targets.slice(1)),
+        nearMissHashes: uniqueHashes(salt, (puzzle.nearMisses ?? []).map((item) => normalizeText(item))),
+        stemHashes: uniqueHashes(salt, targets.map((target) => stemWord(target))),
+        spellingHashes: uniqueHashes(salt, targets.map((target) => canonicalSpelling(target))),
+        typoDepth,
+        typoHashes: uniqueHashes(salt, targets.flatMap((target) => [...deletionNeighbourhood(target, typoAllowance(target.length))]))
+    };
+}
+
+function classifyHashedGuess(normalizedGuess: string, digest: AnswerDigest): CloseReason | null {
+    const { salt } = digest;
+    if (digest.nearMissHashes.includes(hashAnswer(salt, normalizedGuess))) return "listed";
+    if (digest.stemHashes.includes(hashAnswer(salt, stemWord(normalizedGuess)))) return "plural";
+    if (digest.spellingHashes.includes(hashAnswer(salt, canonicalSpelling(normalizedGuess)))) return "variant";
+    if (digest.typoDepth > 0) {
+        const typos = new Set(digest.typoHashes);
+        for (const candidate of deletionNeighbourhood(normalizedGuess, digest.typoDepth)) {
+            if (typos.has(hashAnswer(salt, candidate))) return "typo";
+        }
+    }
+    return null;
+}
+
+function evaluateHashedGuess(guess: string, digest: AnswerDigest, answer: string | undefined, detectClose: boolean): GuessEvaluation {
+    const normalizedGuess = normalizeText(guess);
+    const guessHash = hashAnswer(digest.salt, normalizedGuess);
+    const correct = normalizedGuess.length > 0 && (guessHash === digest.answerHash || digest.acceptedHashes.includes(guessHash));
+    const closeReason = !correct && detectClose && normalizedGuess.length > 0
+        ? classifyHashedGuess(normalizedGuess, digest)
+        : null;
+
+    // Without the answer, per-letter feedback is only known for a solve.
+    let letters: LetterFeedback[] = [];
+    if (answer) letters = evaluateLetters(guess, answer);
+    else if (correct) letters = evaluateLetters(guess, guess);
+
+    return {
+        normalizedGuess,
+        normalizedAnswer: answer ? normalizeText(answer) : "",
+        correct,
+        close: closeReason !== null,
+        closeReason,
+        letters,
+        lengthDelta: normalizedGuess.length - digest.answerLength
+    };
+}
+
+export function evaluateGuess({ guess, answer = "", digest, acceptedAnswers = [], nearMisses = [], detectClose = true }: GuessInput): GuessEvaluation {
+    if (digest) return evaluateHashedGuess(guess, digest, answer || undefined, detectClose);
+
     const normalizedGuess = normalizeText(guess);
     const normalizedAnswer = normalizeText(answer);
+    const targets = [normalizedAnswer, ...acceptedAnswers.map((item) => normalizeText(item))].filter(Boolean);
+    const correct = normalizedGuess.length > 0 && targets.includes(normalizedGuess);
+    const closeReason = !correct && detectClose && normalizedGuess.length > 0
+        ? classifyCloseGuess(normalizedGuess, targets, nearMisses)
+        : null;
+
     return {
         normalizedGuess,
         normalizedAnswer,
-        correct: normalizedGuess.length > 0 && normalizedGuess === normalizedAnswer
+        correct,
+        close: closeReason !== null,
+        closeReason,
+        letters: evaluateLetters(guess, answer),
+        lengthDelta: normalizedGuess.length - normalizedAnswer.length
     };
 }
 
-export function computeScore({ correct, hintsUsed, timeSeconds, streakDays }: ScoreParams): number {
-    if (!correct) return 0;
+// Maps puzzle difficulty (0–1) onto a 0.75×–1.25× multiplier; 0.5 scores as before.
+export function difficultyMultiplier(difficulty = 0.5): number {
+    const clamped = Math.max(0, Math.min(1, Number.isFinite(difficulty) ? difficulty : 0.5));
+    return Math.round((0.75 + clamped * 0.5) * 100) / 100;
+}
 
+export function computeScoreBreakdown({ correct, hintsUsed, timeSeconds, streakDays, difficulty, hardMode = false, rules = DEFAULT_GAME_RULES }: ScoreParams): ScoreBreakdown {
     const baseScore = 100;
-    const hintPenalty = Math.max(0, hintsUsed - 1) * 15;
-    const timePenalty = Math.min(35, Math.floor(Math.max(0, timeSeconds) / 6));
-    const streakBonus = Math.min(25, Math.floor(Math.max(0, streakDays) / 2));
+    const { hintCost, timePenaltyCap } = rules;
+    const extraHints = Math.max(0, hintsUsed - 1);
+    const seconds = Math.max(0, Math.round(timeSeconds));
+    const streak = Math.max(0, streakDays);
+    const hintPenalty = extraHints * hintCost;
+    const timePenalty = rules.timer ? Math.min(timePenaltyCap, Math.floor(seconds / 6)) : 0;
+    const streakBonus = Math.min(25, Math.floor(streak / 2));
+    const multiplier = difficultyMultiplier(difficulty);
+    const hardModeMultiplier = hardMode ? HARD_MODE_MULTIPLIER : 1;
+
+    if (!correct) {
+        return {
+            base: baseScore,
+            hintPenalty,
+            timePenalty,
+            streakBonus,
+            difficultyMultiplier: multiplier,
+            hardModeMultiplier,
+            total: 0,
+            items: [{ kind: "unsolved", label: "Not solved", rule: "Points are only awarded for a correct answer.", points: 0 }]
+        };
+    }
+
+    const subtotal = baseScore - hintPenalty - timePenalty + streakBonus;
+    const weighted = Math.round(subtotal * multiplier * hardModeMultiplier);
+    const total = Math.max(5, weighted);
+
+    const items: ScoreLineItem[] = [
+        { kind: "base", label: "Solved", rule: "Every solve starts at 100 points.", points: baseScore },
+        {
+            kind: "hints",
+            label: "Hints",
+            rule: extraHints > 0
+                ? `${extraHints} extra ${extraHints === 1 ? "hint" : "hints"} × ${hintCost} (the first hint is free).`
+                : "Only the free first hint was used.",
+            points: -hintPenalty
+        },
+        {
+            kind: "time",
+            label: "Time",
+            rule: !rules.timer
+                ? "The timer is off in this subreddit."
+                : timePenalty === timePenaltyCap
+                    ? `${seconds}s — capped at ${timePenaltyCap} points.`
+                    : `${seconds}s ÷ 6, rounded down (max ${timePenaltyCap}).`,
+            points: -timePenalty
+        },
+        {
+            kind: "streak",
+            label: "Streak",
+            rule: streakBonus === 25
+                ? `${streak}-day streak — capped at 25 points.`
+                : `${streak}-day streak ÷ 2, rounded down (max 25).`,
+            points: streakBonus
+        },
+        {
+            kind: "difficulty",
+            label: "Difficulty",
+            rule: `Puzzle rated ${Math.round((difficulty ?? 0.5) * 100)}/100 → ×${multiplier.toFixed(2)}.`,
+            multiplier
+        }
+    ];
+
+    if (hardMode) {
+        items.push({
+            kind: "hardMode",
+            label: "Hard mode",
+            rule: `No extra hints, clues hidden until the end → ×${HARD_MODE_MULTIPLIER.toFixed(2)}.`,
+            multiplier: HARD_MODE_MULTIPLIER
+        });
+    }
+
+    if (total > weighted) {
+        items.push({ kind: "minimum", label: "Minimum", rule: "A solve is always worth at least 5 points.", points: total - weighted });
+    }
+
+    return {
+        base: baseScore,
+        hintPenalty,
+        timePenalty,
+        streakBonus,
+        difficultyMultiplier: multiplier,
+        hardModeMultiplier,
+        total,
+        items
+    };
+}
 
-    return Math.max(5, baseScore - hintPenalty - timePenalty + streakBonus);
+export function computeScore(params: ScoreParams): number {
+    return computeScoreBreakdown(params).total;
 }
 
 export function buildResultComment({ correct, score, answer, dayKey }: { correct: boolean; score: number; answer: string; dayKey: string }): string {
@@ -125,6 +769,199 @@ export function buildResultComment({ correct, score, answer, dayKey }: { correct
     return `I missed ThreadPulse Daily for ${dayKey}. The answer was ${answer}.`;
 }
 
+// ─── End-of-day Recap ───────────────────────────────────────────
+
+/** How the community did on one finished day. */
+export interface DayRecap {
+    dayKey: string;
+    answer: string;
+    solves: number;
+    /** Boards that ran out of guesses */
+    fails: number;
+    /** Solves by guess count: index 0 counts first-guess solves */
+    guessHistogram: number[];
+    fastest: { username: string; seconds: number } | null;
+    top: { username: string; score: number }[];
+    bestClue: { text: string; author: string } | null;
+}
+
+/** The `{placeholders}` a recap template may use */
+export const RECAP_TEMPLATE_FIELDS = [
+    "dayKey",
+    "answer",
+    "solves",
+    "fails",
+    "players",
+    "solveRate",
+    "histogram",
+    "fastest",
+    "top3",
+    "bestClue"
+] as const;
+
+export const DEFAULT_RECAP_TEMPLATE = [
+    "**🧩 ThreadPulse Daily {dayKey} recap**",
+    "",
+    "The answer was **{answer}**. {solves} of {players} players solved it ({solveRate}).",
+    "",
+    "{histogram}",
+    "",
+    "⚡ Fastest solve: {fastest}",
+    "",
+    "🏆 Top scores:",
+    "",
+    "{top3}",
+    "",
+    "💡 Best community clue: {bestClue}"
+].join("\n");
+
+const RECAP_BAR_WIDTH = 20;
+
+/** Placeholders in `template` that buildRecapComment would leave as typed. */
+export function unknownRecapFields(template: string): string[] {
+    const known: readonly string[] = RECAP_TEMPLATE_FIELDS;
+    const found = [...template.matchAll(/\{(\w+)\}/g)].map((match) => match[1]);
+    return [...new Set(found.filter((name) => !known.includes(name)))];
+}
+
+function formatSolveTime(seconds: number): string {
+    const minutes = Math.floor(seconds / 60);
+    return minutes > 0 ? `${minutes}m ${String(seconds % 60).padStart(2, "0")}s` : `${seconds}s`;
+}
+
+// Indented four spaces, so Reddit renders it as a code block and the bars line up
+function formatGuessHistogram(histogram: number[], fails: number): string {
+    const rows = [...histogram.map((count, i) => ({ label: String(i + 1), count })), { label: "X", count: fails }];
+    const widest = Math.max(1, ...rows.map((row) => row.count));
+    return rows
+        .map((row) => `    ${row.label.padStart(2)} │${"█".repeat(Math.round((row.count / widest) * RECAP_BAR_WIDTH))} ${row.count}`)
+        .join("\n");
+}
+
+/**
+ * The end-of-day recap comment, templated like buildResultComment. Moderators
+ * can replace the template; each `{field}` from RECAP_TEMPLATE_FIELDS is
+ * filled in and anything else is left as typed.
+ */
+export function buildRecapComment(recap: DayRecap, template = DEFAULT_RECAP_TEMPLATE): string {
+    const players = recap.solves + recap.fails;
+    const values: Record<(typeof RECAP_TEMPLATE_FIELDS)[number], string> = {
+        dayKey: recap.dayKey,
+        answer: recap.answer.toUpperCase(),
+        solves: String(recap.solves),
+        fails: String(recap.fails),
+        players: String(players),
+        solveRate: players > 0 ? `${Math.round((recap.solves / players) * 100)}%` : "no finished games",
+        histogram: formatGuessHistogram(recap.guessHistogram, recap.fails),
+        fastest: recap.fastest
+            ? `u/${recap.fastest.username} in ${formatSolveTime(recap.fastest.seconds)}`
+            : "nobody solved it",
+        top3: recap.top.length > 0
+            ? recap.top.map((entry, i) => `${i + 1}. u/${entry.username} — ${entry.score} points`).join("\n")
+            : "No verified solves.",
+        bestClue: recap.bestClue ? `"${recap.bestClue.text}" by u/${recap.bestClue.author}` : "none this time"
+    };
+    return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+        Object.prototype.hasOwnProperty.call(values, name) ? values[name as keyof typeof values] : match
+    );
+}
+
+// ─── Streaks ────────────────────────────────────────────────────
+
+/** The streak days still counting on `todayKey`: a streak lapses once a whole day passes without a solve. */
+export function liveStreakDays(streak: StreakRecord | null, todayKey: string): number {
+    if (!streak?.lastSolvedDay || streak.lastSolvedDay > todayKey) return 0;
+    return streak.lastSolvedDay >= shiftUtcDay(todayKey, -1) ? streak.streakDays : 0;
+}
+
+/** The streak after a solve on `dayKey`. */
+export function extendStreak(streak: StreakRecord | null, dayKey: string): StreakRecord {
+    if (streak?.lastSolvedDay === dayKey) return streak;
+    const streakDays = streak?.lastSolvedDay === shiftUtcDay(dayKey, -1) ? streak.streakDays + 1 : 1;
+    return { lastSolvedDay: dayKey, streakDays };
+}
+
+/**
+ * Reconcile two copies of a player's streak (e.g. this device and the host):
+ * the greater live streak wins, then the later solve, then the longer run,
+ * and a full tie goes to `b`. When one copy solved the day after the other's
+ * last solve, that solve extends the other copy's run, whichever copy it is.
+ */
+export function resolveStreak(a: StreakRecord | null, b: StreakRecord | null, todayKey: string): StreakRecord {
+    const empty: StreakRecord = { lastSolvedDay: null, streakDays: 0 };
+    // A solve dated after today comes from a wrong clock and never counts
+    if (a?.lastSolvedDay && a.lastSolvedDay > todayKey) a = null;
+    if (b?.lastSolvedDay && b.lastSolvedDay > todayKey) b = null;
+    const beats = (x: StreakRecord, y: StreakRecord) => {
+        const liveX = liveStreakDays(x, todayKey);
+        const liveY = liveStreakDays(y, todayKey);
+        if (liveX !== liveY) return liveX > liveY;
+        const dayX = x.lastSolvedDay ?? "";
+        const dayY = y.lastSolvedDay ?? "";
+        return dayX !== dayY ? dayX > dayY : x.streakDays > y.streakDays;
+    };
+    let winner = a && (!b || beats(a, b)) ? a : b ?? empty;
+    for (const [earlier, later] of [[a, b], [b, a]]) {
+        if (earlier?.lastSolvedDay && later?.lastSolvedDay === shiftUtcDay(earlier.lastSolvedDay, 1)) {
+            const joined = extendStreak(earlier, later.lastSolvedDay);
+            if (beats(joined, winner)) winner = joined;
+        }
+    }
+    return winner;
+}
+
+// ─── Streak Flair ───────────────────────────────────────────────
+
+export const DEFAULT_FLAIR_THRESHOLDS = [7, 30, 100, 365];
+export const DEFAULT_FLAIR_TEXT = "🔥 {streak} ThreadPulse";
+/** Reddit's limit on user flair text */
+export const FLAIR_TEXT_LIMIT = 64;
+
+export type FlairBreakMode = "remove" | "downgrade";
+
+export interface StreakFlairRules {
+    /** Ascending streak lengths that earn a flair */
+    thresholds: number[];
+    /** `{streak}` is the live streak, `{tier}` the threshold reached */
+    text: string;
+    onBreak: FlairBreakMode;
+}
+
+/** A flair the app has set, as it remembers it. */
+export interface HeldFlair {
+    tier: number;
+    text: string;
+    /** Set once a break has stepped the flair down, so it only happens once per break */
+    downgraded?: boolean;
+}
+
+/** Positive whole numbers from a comma-separated list, ascending; null when the list is unusable. */
+export function parseFlairThresholds(input: string): number[] | null {
+    const parts = input.split(/[,\s]+/).filter(Boolean);
+    const values = parts.map(Number);
+    if (values.length === 0 || values.some((value) => !Number.isInteger(value) || value < 1)) return null;
+    return [...new Set(values)].sort((a, b) => a - b);
+}
+
+function fillFlairText(text: string, streak: number, tier: number): string {
+    return text.replace(/\{streak\}/g, String(streak)).replace(/\{tier\}/g, String(tier)).slice(0, FLAIR_TEXT_LIMIT);
+}
+
+/**
+ * The flair a player should hold with `liveDays` of verified streak. Reaching
+ * a threshold always sets it. Below every threshold, "remove" clears it and
+ * "downgrade" steps it down one tier, once per break.
+ */
+export function nextStreakFlair(liveDays: number, held: HeldFlair | null, rules: StreakFlairRules): HeldFlair | null {
+    const earned = rules.thresholds.filter((threshold) => threshold <= liveDays).pop();
+    if (earned !== undefined) return { tier: earned, text: fillFlairText(rules.text, liveDays, earned) };
+    if (!held || rules.onBreak === "remove") return null;
+    if (held.downgraded) return held;
+
+    const lower = rules.thresholds.filter((threshold) => threshold < held.tier).pop();
+    return lower === undefined ? null : { tier: lower, text: fillFlairText(rules.text, lower, lower), downgraded: true };
+}
+
 export function validateCommunityClue(text: string, options: CommunityClueOptions = {}): ValidationResult {
     const raw = String(text || "").trim();
 
@@ -152,6 +989,22 @@ export function validateCommunityClue(text: string, options: CommunityClueOption
         }
     }
 
+    // Without the plaintext answer, check every run of consecutive words against the hashes.
+    const digest = options.forbiddenDigest;
+    if (digest) {
+        const words = raw.toLowerCase().split(/\s+/).map((word) => normalizeText(word)).filter(Boolean);
+        const forbidden = new Set([digest.answerHash, ...digest.acceptedHashes, ...digest.stemHashes]);
+        for (let start = 0; start < words.length; start += 1) {
+            let run = "";
+            for (let end = start; end < words.length; end += 1) {
+                run += words[end];
+                if (forbidden.has(hashAnswer(digest.salt, run)) || forbidden.has(hashAnswer(digest.salt, stemWord(run)))) {
+                    return { valid: false, reason: "Clue cannot contain the answer." };
+                }
+            }
+        }
+    }
+
     const existingClues = Array.isArray(options.existingClues) ? options.existingClues : [];
     const duplicate = existingClues.some((item) => normalizeText(item) === normalizedRaw);
     if (duplicate) {
@@ -161,11 +1014,12 @@ export function validateCommunityClue(text: string, options: CommunityClueOption
     return { valid: true, reason: "ok" };
 }
 
-export function rankCommunityClues(clues: CommunityClue[], limit = 5): CommunityClue[] {
+export function rankCommunityClues(clues: CommunityClue[], limit = 5, options: RankClueOptions = {}): CommunityClue[] {
     if (!Array.isArray(clues)) return [];
 
     return [...clues]
         .filter((item) => item && typeof item.text === "string")
+        .filter((item) => !options.requireApproval || item.approved)
         .filter((item) => validateCommunityClue(item.text).valid)
         .sort((a, b) => {
             const scoreA = (a.upvotes || 0) + (a.modBoost || 0) * 3;
@@ -178,8 +1032,8 @@ export function rankCommunityClues(clues: CommunityClue[], limit = 5): Community
         .slice(0, limit);
 }
 
-export function createDailyGameSnapshot(inputDate = new Date()): Snapshot {
-    const daily = pickDailyPuzzle(inputDate);
+export function createDailyGameSnapshot(inputDate = new Date(), custom: CustomPuzzleBank<PublicPuzzle> | null = null): Snapshot {
+    const daily = pickSubredditPuzzle(inputDate, custom);
 
     return {
         dayKey: daily.dayKey,
@@ -0,0 +1,312 @@
+import { computeScoreBreakdown, evaluateGuess, rankCommunityClues, validateCommunityClue } from "./dailyGameEngine";
+import { DEFAULT_GAME_RULES } from "./gameRules";
+import type { ClueVote, CommunityClue, DailyGameState, Guess, LetterState, PlayerDailyState, ScoreBreakdown } from "../types";
+
+/**
+ * Pure game state machine for a single daily puzzle.
+ *
+ * Every rule that changes a player's board lives here so it can run outside
+ * React (tests, the Devvit host) and so rapid actions are applied to the
+ * latest state instead of a stale closure. Anything impure — the current
+ * time, the streak a solve would earn, clue ids — is passed in on the action.
+ * The install's rules (guess limit, hint cost, timer, clues) travel on the
+ * game state itself.
+ */
+
+export const MAX_HINTS = 3;
+
+/** `solved` and `failed` are terminal: no action changes the board afterwards. */
+export type GamePhase = "playing" | "solved" | "failed";
+
+export interface GameMachineState {
+    game: DailyGameState;
+    phase: GamePhase;
+    elapsedSeconds: number;
+    /** Feedback for the last action, or null when it went through cleanly. */
+    message: string | null;
+}
+
+export type GameAction =
+    | { type: "GUESS"; guess: string; at: Date; solvedStreak: number }
+    | { type: "UNLOCK_HINT" }
+    | { type: "SET_HARD_MODE"; enabled: boolean }
+    | { type: "SUBMIT_CLUE"; clue: CommunityClue }
+    | { type: "LOAD_CLUES"; clues: CommunityClue[] }
+    | { type: "VOTE_CLUE"; clueId: string; vote: ClueVote }
+    | { type: "TICK"; at: Date }
+    | { type: "VERIFY_SCORE"; score: number; breakdown?: ScoreBreakdown }
+    | { type: "GUESS_LETTERS"; guess: string; letters: LetterState[] }
+    | { type: "REVEAL_ANSWER"; answer: string; acceptedAnswers?: string[] };
+
+export function derivePhase(
+    playerState: Pick<PlayerDailyState, "completed" | "guesses">,
+    maxGuesses: number = DEFAULT_GAME_RULES.maxGuesses
+): GamePhase {
+    if (playerState.completed) return "solved";
+    if (playerState.guesses.length >= maxGuesses) return "failed";
+    return "playing";
+}
+
+type BoardProgress = Pick<PlayerDailyState, "completed" | "guesses" | "hintsUnlocked">;
+
+/**
+ * Of two saved copies of the same day's board (e.g. from two devices), the
+ * one that got further: a finished game, then more guesses, then more hints.
+ * A tie goes to `b`.
+ */
+export function furtherBoard<T extends BoardProgress>(a: T, b: T, maxGuesses: number = DEFAULT_GAME_RULES.maxGuesses): T {
+    const rank = (board: T) => [derivePhase(board, maxGuesses) === "playing" ? 0 : 1, board.guesses.length, board.hintsUnlocked];
+    const rankA = rank(a);
+    const rankB = rank(b);
+    for (let i = 0; i < rankA.length; i += 1) {
+        if (rankA[i] !== rankB[i]) return rankA[i] > rankB[i] ? a : b;
+    }
+    return b;
+}
+
+function elapsedBetween(start: Date, end: Date): number {
+    const startedAt = new Date(start).getTime();
+    if (Number.isNaN(startedAt)) return 0;
+    return Math.max(0, Math.round((new Date(end).getTime() - startedAt) / 1000));
+}
+
+export function createGameMachine(game: DailyGameState, now: Date = new Date()): GameMachineState {
+    const { playerState } = game;
+    return {
+        game,
+        phase: derivePhase(playerState, game.rules.maxGuesses),
+        elapsedSeconds: elapsedBetween(playerState.timeStarted, playerState.timeCompleted ?? now),
+        message: null
+    };
+}
+
+function normalize(value: string): string {
+    return value.toLowerCase().replace(/[^a-z0-9]/g, "").trim();
+}
+
+function reject(state: GameMachineState, message: string): GameMachineState {
+    return { ...state, message };
+}
+
+function withPlayerState(state: GameMachineState, playerState: PlayerDailyState, message: string | null = null): GameMachineState {
+    return {
+        ...state,
+        game: { ...state.game, playerState },
+        phase: derivePhase(playerState, state.game.rules.maxGuesses),
+        message
+    };
+}
+
+function applyGuess(state: GameMachineState, action: Extract<GameAction, { type: "GUESS" }>): GameMachineState {
+    const { game } = state;
+    const { playerState, puzzle } = game;
+
+    if (state.phase === "solved") return state;
+    if (state.phase === "failed") return reject(state, "No guesses remaining for today.");
+
+    const normalizedGuess = normalize(action.guess);
+    if (!normalizedGuess) return reject(state, "Please enter a guess.");
+    if (playerState.guesses.some((item) => normalize(item.text) === normalizedGuess)) {
+        return reject(state, "You already tried that guess.");
+    }
+
+    const nearMissPolicy = puzzle.nearMissPolicy ?? "free";
+    const evaluation = evaluateGuess({
+        guess: action.guess,
+        answer: puzzle.answer,
+        digest: puzzle.digest,
+        detectClose: nearMissPolicy !== "off"
+    });
+
+    if (evaluation.close && nearMissPolicy === "free") {
+        return reject(state, "So close! Adjust your answer — that one didn't use a guess.");
+    }
+
+    const breakdown = computeScoreBreakdown({
+        correct: evaluation.correct,
+        hintsUsed: playerState.hintsUnlocked,
+        timeSeconds: Math.max(1, elapsedBetween(playerState.timeStarted, action.at)),
+        streakDays: playerState.streak,
+        difficulty: puzzle.difficulty,
+        hardMode: playerState.hardMode,
+        rules: game.rules
+    });
+
+    const newGuess: Guess = {
+        text: action.guess,
+        timestamp: action.at,
+        hintsUsed: playerState.hintsUnlocked,
+        correct: evaluation.correct,
+        // Until the answer is revealed, letters for a miss arrive later via GUESS_LETTERS.
+        ...(game.feedbackMode === "letters" && evaluation.letters.length > 0
+            ? { letters: evaluation.letters.map((item) => item.state) }
+            : {}),
+        ...(evaluation.close ? { close: true } : {})
+    };
+
+    const guesses = [...playerState.guesses, newGuess];
+    const nextPlayerState: PlayerDailyState = {
+        ...playerState,
+        guesses,
+        completed: evaluation.correct,
+        score: breakdown.total,
+        scoreBreakdown: breakdown,
+        streak: evaluation.correct ? action.solvedStreak : playerState.streak,
+        timeCompleted: evaluation.correct ? action.at : playerState.timeCompleted
+    };
+
+    const remaining = game.rules.maxGuesses - guesses.length;
+    let message: string | null = null;
+    if (!evaluation.correct) {
+        if (remaining <= 0) message = "Round complete. Try again on the next daily puzzle.";
+        else if (evaluation.close) message = `So close! ${remaining} guesses left.`;
+        else message = `Not correct yet. ${remaining} guesses left.`;
+    }
+
+    const next = withPlayerState(state, nextPlayerState, message);
+    return next.phase === "playing" ? next : { ...next, elapsedSeconds: elapsedBetween(playerState.timeStarted, action.at) };
+}
+
+function applyUnlockHint(state: GameMachineState): GameMachineState {
+    const { playerState } = state.game;
+    if (state.phase !== "playing") return state;
+    if (playerState.hardMode) return reject(state, "Hard mode: only the first hint is available.");
+
+    const hintsUnlocked = Math.min(MAX_HINTS, playerState.hintsUnlocked + 1);
+    if (hintsUnlocked === playerState.hintsUnlocked) return state;
+
+    return withPlayerState(state, { ...playerState, hintsUnlocked });
+}
+
+function applySetHardMode(state: GameMachineState, enabled: boolean): GameMachineState {
+    const { playerState } = state.game;
+    if (playerState.hardMode === enabled) return state;
+
+    // The mode is locked for the day once the first guess is in.
+    if (playerState.guesses.length > 0 || state.phase !== "playing") {
+        return reject(state, "Hard mode can only be changed before your first guess.");
+    }
+    if (enabled && playerState.hintsUnlocked > 1) {
+        return reject(state, "Hard mode must be chosen before unlocking extra hints.");
+    }
+
+    return withPlayerState(state, { ...playerState, hardMode: enabled });
+}
+
+function applySubmitClue(state: GameMachineState, clue: CommunityClue): GameMachineState {
+    const { game } = state;
+
+    if (!game.rules.clueSubmission) {
+        return reject(state, "Clue submission is turned off in this subreddit.");
+    }
+    if (game.isArchive) {
+        return reject(state, "Clues can only be added to today's puzzle.");
+    }
+    if (game.communityClues.some((item) => item.author === clue.author)) {
+        return reject(state, "You already submitted a clue for today.");
+    }
+
+    const validation = validateCommunityClue(clue.text, {
+        forbiddenWords: game.puzzle.answer ? [game.puzzle.answer, ...(game.puzzle.acceptedAnswers ?? [])] : [],
+        forbiddenDigest: game.puzzle.digest,
+        existingClues: game.communityClues.map((item) => item.text)
+    });
+    if (!validation.valid) {
+        return reject(state, validation.reason || "Invalid clue.");
+    }
+
+    const communityClues = rankCommunityClues([...game.communityClues, { ...clue, text: clue.text.trim() }], 5);
+    return { ...state, game: { ...game, communityClues }, message: null };
+}
+
+// The host ranks clues, so its list is taken as-is
+function applyLoadClues(state: GameMachineState, clues: CommunityClue[]): GameMachineState {
+    return { ...state, game: { ...state.game, communityClues: clues } };
+}
+
+// Votes move the count in place; the list is only re-ranked when it is next loaded,
+// so a clue never jumps away from the arrow that was just pressed.
+function applyVoteClue(state: GameMachineState, clueId: string, vote: ClueVote): GameMachineState {
+    const { game } = state;
+    const target = game.communityClues.find((clue) => clue.id === clueId);
+    if (!target || (target.myVote ?? 0) === vote) return state;
+
+    const communityClues = game.communityClues.map((clue) =>
+        clue.id === clueId ? { ...clue, upvotes: clue.upvotes + vote - (clue.myVote ?? 0), myVote: vote } : clue
+    );
+    return { ...state, game: { ...game, communityClues } };
+}
+
+function applyTick(state: GameMachineState, at: Date): GameMachineState {
+    if (state.phase !== "playing") return state;
+    const elapsedSeconds = elapsedBetween(state.game.playerState.timeStarted, at);
+    return elapsedSeconds === state.elapsedSeconds ? state : { ...state, elapsedSeconds };
+}
+
+// The host's recomputed score is the one on the leaderboard, so a solved
+// board adopts it in place of the locally computed one.
+function applyVerifyScore(state: GameMachineState, action: Extract<GameAction, { type: "VERIFY_SCORE" }>): GameMachineState {
+    const { playerState } = state.game;
+    if (state.phase !== "solved" || playerState.score === action.score) return state;
+
+    return withPlayerState(state, {
+        ...playerState,
+        score: action.score,
+        ...(action.breakdown ? { scoreBreakdown: action.breakdown } : {})
+    }, state.message);
+}
+
+function applyGuessLetters(state: GameMachineState, action: Extract<GameAction, { type: "GUESS_LETTERS" }>): GameMachineState {
+    const { playerState } = state.game;
+    const target = normalize(action.guess);
+    const index = playerState.guesses.findIndex((item) => !item.letters && normalize(item.text) === target);
+    if (index < 0 || state.game.feedbackMode !== "letters") return state;
+
+    const guesses = playerState.guesses.map((item, i) => (i === index ? { ...item, letters: action.letters } : item));
+    return withPlayerState(state, { ...playerState, guesses }, state.message);
+}
+
+// Answers stay hidden until the host reveals them after the game ends (or for past days).
+function applyRevealAnswer(state: GameMachineState, action: Extract<GameAction, { type: "REVEAL_ANSWER" }>): GameMachineState {
+    const { game } = state;
+    if (game.puzzle.answer === action.answer) return state;
+
+    return {
+        ...state,
+        game: {
+            ...game,
+            puzzle: {
+                ...game.puzzle,
+                answer: action.answer,
+                ...(action.acceptedAnswers ? { acceptedAnswers: action.acceptedAnswers } : {})
+            }
+        }
+    };
+}
+
+export function gameReducer(state: GameMachineState, action: GameAction): GameMachineState {
+    switch (action.type) {
+        case "GUESS":
+            return applyGuess(state, action);
+        case "UNLOCK_HINT":
+            return applyUnlockHint(state);
+        case "SET_HARD_MODE":
+            return applySetHardMode(state, action.enabled);
+        case "SUBMIT_CLUE":
+            return applySubmitClue(state, action.clue);
+        case "LOAD_CLUES":
+            return applyLoadClues(state, action.clues);
+        case "VOTE_CLUE":
+            return applyVoteClue(state, action.clueId, action.vote);
+        case "TICK":
+            return applyTick(state, action.at);
+        case "VERIFY_SCORE":
+            return applyVerifyScore(state, action);
+        case "GUESS_LETTERS":
+            return applyGuessLetters(state, action);
+        case "REVEAL_ANSWER":
+            return applyRevealAnswer(state, action);
+        default:
+            return state;
+    }
+}
@@ -0,0 +1,88 @@
+import type { GameRules } from "../types";
+
+/**
+ * Per-install game rules.
+ *
+ * Moderators set these in the Devvit app settings. The host sends them to the
+ * webview in the init handshake, and the reducer, scoring and UI read them
+ * from the game state, so both sides always play by the same rules. Outside
+ * Reddit the defaults apply. The time penalty cap is not a setting.
+ */
+
+export const DEFAULT_GAME_RULES: GameRules = {
+    maxGuesses: 6,
+    hintCost: 15,
+    timer: true,
+    timePenaltyCap: 35,
+    resetHour: 0,
+    timeZone: "UTC",
+    clueSubmission: true
+};
+
+/** The range each numeric setting is clamped to */
+export const GAME_RULE_LIMITS = {
+    maxGuesses: { min: 3, max: 10 },
+    hintCost: { min: 0, max: 50 },
+    resetHour: { min: 0, max: 23 }
+} as const;
+
+export function isValidTimeZone(timeZone: string): boolean {
+    try {
+        new Intl.DateTimeFormat("en-US", { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+function clampWhole(value: unknown, limits: { min: number; max: number }, fallback: number): number {
+    const number = Number(value);
+    if (value === undefined || value === null || !Number.isFinite(number)) return fallback;
+    return Math.max(limits.min, Math.min(limits.max, Math.round(number)));
+}
+
+/** Fills gaps from the defaults and clamps bad values, so a mistyped setting never breaks a game. */
+export function resolveGameRules(input?: Partial<GameRules> | null): GameRules {
+    const timeZone = typeof input?.timeZone === "string" ? input.timeZone.trim() : "";
+    return {
+        maxGuesses: clampWhole(input?.maxGuesses, GAME_RULE_LIMITS.maxGuesses, DEFAULT_GAME_RULES.maxGuesses),
+        hintCost: clampWhole(input?.hintCost, GAME_RULE_LIMITS.hintCost, DEFAULT_GAME_RULES.hintCost),
+        timer: typeof input?.timer === "boolean" ? input.timer : DEFAULT_GAME_RULES.timer,
+        timePenaltyCap: DEFAULT_GAME_RULES.timePenaltyCap,
+        resetHour: clampWhole(input?.resetHour, GAME_RULE_LIMITS.resetHour, DEFAULT_GAME_RULES.resetHour),
+        timeZone: timeZone && isValidTimeZone(timeZone) ? timeZone : DEFAULT_GAME_RULES.timeZone,
+        clueSubmission: typeof input?.clueSubmission === "boolean" ? input.clueSubmission : DEFAULT_GAME_RULES.clueSubmission
+    };
+}
+
+/**
+ * The puzzle day at `at`: the calendar date in the rules' time zone, rolling
+ * over at `resetHour` instead of midnight. With the defaults this is the UTC date.
+ */
+export function gameDayKey(at = new Date(), rules: Pick<GameRules, "resetHour" | "timeZone"> = DEFAULT_GAME_RULES): string {
+    const shifted = new Date(at.getTime() - rules.resetHour * 60 * 60 * 1000);
+    const parts = new Intl.DateTimeFormat("en-US", {
+        timeZone: rules.timeZone,
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit"
+    }).formatToParts(shifted);
+    const part = (type: string) => parts.find((item) => item.type === type)?.value ?? "";
+    return `${part("year")}-${part("month")}-${part("day")}`;
+}
+
+/**
+ * Whether the clock in the rules' time zone has reached `hour` within the
+ * current puzzle day. The day starts at `resetHour`, so with a 06:00 reset an
+ * `hour` of 3 is 03:00 at the end of the day, not before it.
+ */
+export function reachedDayHour(hour: number, at = new Date(), rules: Pick<GameRules, "resetHour" | "timeZone"> = DEFAULT_GAME_RULES): boolean {
+    const parts = new Intl.DateTimeFormat("en-US", {
+        timeZone: rules.timeZone,
+        hour: "numeric",
+        hourCycle: "h23"
+    }).formatToParts(at);
+    const clockHour = Number(parts.find((item) => item.type === "hour")?.value ?? 0);
+    const sinceReset = (value: number) => (value - rules.resetHour + 24) % 24;
+    return sinceReset(clockHour) >= sinceReset(hour);
+}
@@ -0,0 +1,823 @@
+// Generated by `npm run hash-answers` from puzzleBank.ts — do not edit by hand.
+// The webview imports this bank; only the Devvit host and scripts read the plaintext one.
+
+import type { AnswerDigest } from "../types";
+
+export interface PublicPuzzle {
+    id: string;
+    category: string;
+    title: string;
+    difficulty: number;
+    hints: string[];
+    subredditTags: string[];
+    nearMissPolicy?: "free" | "counted" | "off";
+    digest: AnswerDigest;
+}
+
+export const publicPuzzleBank: PublicPuzzle[] = [
+    {
+        id: "p001",
+        category: "community-vibe",
+        title: "Faith in Humans",
+        difficulty: 0.3,
+        hints: [
+            "This post type usually gets people saying, 'I needed this today.'",
+            "It often features strangers helping each other with no strings attached.",
+            "Common in communities focused on kindness and uplifting stories."
+        ],
+        subredditTags: ["r/HumansBeingBros", "r/wholesomememes"],
+        digest: {
+            salt: "p001",
+            answerHash: "1f70bd54501c38",
+            answerLength: 9,
+            acceptedHashes: [],
+            nearMissHashes: [],
+            stemHashes: ["1f70bd54501c38"],
+            spellingHashes: ["1f70bd54501c38"],
+            typoDepth: 2,
+            typoHashes: ["006d8ee0bf1565", "00da8c8bd994ad", "00df1d340e78fa", "017eb861196ac7", "0273aadaf21cec", "029dcf09271188", "03972c9792cfc0", "03a2e1f237d000", "03fbc9e5fd47c6", "042e0e4bb91b14", "04450c45b77914", "0548eb0ab39296", "06955411d3658d", "06b9ef57417ac8", "06babe3f135dfd", "07b497a09837b1", "07c7641c2e3fbe", "09f82c34f265e1", "0a815bc41404aa", "0bf0e11aba299f", "0c416912e98310", "0c55ee8a868317", "0e354c72fac975", "0ec6198ad9e12f", "0ecad5d6c4a1d1", "0f1c72f49a17f6", "0f38b40abf362a", "0fb7f05dadcd49", "1158a4c41a245b", "1238df26617438", "13d75233b755ee", "15b1e6ebdf6e24", "1740c69d1bd2e6", "177b916ed7c5a7", "1798f1c0a78fdb", "179bf76d1b6338", "17e9c00abf2231", "19288a75071d26", "196ad3f389347b", "1a13cedc36cfcb", "1b6c2f50f5cd5b", "1c34d669130a85", "1c8bb955a66cb4", "1e6b7a601892f7", "1f16d0cf55ef76", "1f70bd54501c38"]
+        }
+    },
+    {
+        id: "p002",
+        category: "memory",
+        title: "Back in the Day",
+        difficulty: 0.4,
+        hints: [
+            "This feeling spikes when people post old gadgets, cartoons, or school memories.",
+            "Comments often include phrases like 'core memory unlocked.'",
+            "It connects current users to past eras and shared cultural moments."
+        ],
+        subredditTags: ["r/nostalgia", "r/OldSchoolCool"],
+        digest: {
+            salt: "p002",
+            answerHash: "1272fd194f6f9d",
+            answerLength: 9,
+            acceptedHashes: [],
+            nearMissHashes: [],
+            stemHashes: ["1272fd194f6f9d"],
+            spellingHashes: ["1272fd194f6f9d"],
+            typoDepth: 2,
+            typoHashes: ["03d6e5488f9ccd", "03e02afb3181cb", "0454d6a212f57e", "04a5ac71de29cd", "05e47d7be35a27", "06287fde1bdca6", "06e15c2e3cf13f", "07f40e6f63995d", "080fb8d6b79559", "083465c8e09f6f", "09110778c39237", "097b0704e06f2c", "0ad0b6ae6392a9", "0c10f25f9025ee", "0d41bf04e0d0bc", "0dcb931eaed92d", "0e373c93fb0ef4", "0e934661158d33", "0ef570890f97fc", "0fb3ad194a1cba", "0fd8b2470c73c8", "0ff0f98a80839f", "1272fd194f6f9d", "127480dd220980", "1296cd07eb5c7c", "1296f0e52b55c5", "130de5ad91f642", "135b4774126439", "142d24d97ff051", "146aa2ca9a345b", "1536ca6fdca006", "1608cd666efa1f", "16316a2f6ce365", "16662ec652cb6b", "16b1351455b59f", "170fef15ca36d9", "176479cb8a9b1c", "17919b9cb5b9b5", "18528272b3fc50", "19451c8a66df24", "194b6a9497aaa8", "1a13a578e140dc", "1a2f9ffc044826", "1c0116ec090707", "1c5791fb4bd3d5", "1efe1dbe810a3a"]
+        }
+    },
+    {
+        id: "p003",
+        category: "thread-energy",
+        title: "Comment Spiral",
+        difficulty: 0.5,
+        hints: [
+            "The top comment is normal, then everything derails quickly.",
+            "Usually paired with absurd memes, bad puns, and escalating jokes.",
+            "The mood is high-energy and unpredictable."
+        ],
+        subredditTags: ["r/memes", "r/funny"],
+        digest: {
+            salt: "p003",
+            answerHash: "133a94e17faa52",
+            answerLength: 5,
+            acceptedHashes: [],
+            nearMissHashes: [],
+            stemHashes: ["1b5a3136ed97cc"],
+            spellingHashes: ["133a94e17faa52"],
+            typoDepth: 1,
+            typoHashes: ["01440e32f18ae7", "0186ae6f7791b7", "0c3dcf400b9c5e", "133a94e17faa52", "188db6969d31e5", "1b5a3136ed97cc"]
+        }
+    },
+    {
+        id: "p004",
+        category: "story",
+        title: "Not What You Expected",
+        difficulty: 0.5,
+        hints: [
+            "A post starts one way, then reveals a very different outcome.",
+            "Readers often edit their comments after seeing new context.",
+            "This is a classic pattern in storytelling and viral threads."
+        ],
+        subredditTags: ["r/tifu", "r/BestofRedditorUpdates"],
+        digest: {
+            salt: "p004",
+            answerHash: "1ebad5d14854f6",
+            answerLength: 9,
+            acceptedHashes: [],
+            nearMissHashes: ["08d51c66d874ba"],
+            stemHashes: ["1ebad5d14854f6"],
+            spellingHashes: ["02fd9d4cd6cce4"],
+            typoDepth: 2,
+            typoHashes: ["02fd9d4cd6cce4", "0355f76d5b0193", "0627d671250e53", "06a87855957410", "06af01d6faa365", "06ff61e94101e8", "07ad8790c23a3f", "08b597cf74714a", "08fb82b11944b8", "092687f59bc0e0", "09a6ade859fe7e", "0a8b08ae36a31e", "0a8fc4fe24ed2b", "0accc52cc39203", "0c62c53a7a8b1b", "0d02fa3b4a563c", "0d6aa85739711c", "0e1c3011b859be", "0e6345a51ea1e2", "0f774431fe9be8", "135aaad0ab902c", "13ba5f762c97de", "13c9bda2a6f2a7", "14e01c1a9694ba", "1552af795644fb", "157c0a56dc0d13", "17a8cca7933d1e", "1a386b2053e15f", "1a517a7e822c32", "1a745f885350fa", "1aa822a1828b0e", "1b994c963b6856", "1e23e375750706", "1ebad5d14854f6", "1f4a3c5687a3e8", "1f73523a72f24c", "1fd878923485c8", "1ffbebaa206ff2"]
+        }
+    },
+    {
+        id: "p005",
+        category: "discussion",
+        title: "Hot Take Hour",
+        difficulty: 0.5,
+        hints: [
+            "People split into camps and defend opinions with long replies.",
+            "Most threads have strong arguments from both sides.",
+            "Moderation and civility matter most in this format."
+        ],
+        subredditTags: ["r/changemyview", "r/AskReddit"],
+        digest: {
+            salt: "p005",
+            answerHash: "17844c85772768",
+            answerLength: 6,
+            acceptedHashes: [],
+            nearMissHashes: [],
+            stemHashes: ["17844c85772768"],
+            spellingHashes: ["17844c85772768"],
+            typoDepth: 1,
+            typoHashes: ["03f8543db675f8", "0734fec8140038", "07a9f0044b2585", "0839f6d84bb629", "0aae97d5380bd9", "17844c85772768", "1ddb1a31f67623"]
+        }
+    },
+    {
+        id: "p006",
+        category: "gaming",
+        title: "Fastest Route",
+        difficulty: 0.4,
+        hints: [
+            "The objective is to finish as quickly as possible under shared rules.",
+            "Players optimize every second and discover tiny time saves.",
+            "Communities post records, resets, and breakdown clips."
+        ],
+        subredditTags: ["r/speedrun", "r/gaming"],
+        digest: {
+            salt: "p006",
+            answerHash: "06e046a673fa39",
+            answerLength: 8,
+            acceptedHashes: [],
+            nearMissHashes: ["0a1a0d5c882b0d", "129725de334eb9"],
+            stemHashes: ["06e046a673fa39"],
+            spellingHashes: ["1434b4bb4465d9"],
+            typoDepth: 2,
+            typoHashes: ["016d28e12d0b5e", "031b384a1b8d9d", "04e7695dfef373", "06e046a673fa39", "074f610b9e0252", "07dd3b711006f5", "07f80def0b8729", "082e61c9e657eb", "0860cdcea9cfec", "089267b97062ee", "0b2b033d6f9220", "0ba02b533931ec", "0d71ef93bb17d5", "1185c5722e0321", "11c204b004f387", "11e51389a07f84", "126369bd4caced", "1296fd32dc2587", "1434b4bb4465d9", "1490685e2d60dc", "1646f5fe86eb5c", "19366c2c0ac1a4", "19383c65a9687a", "1a0f57ce25126a", "1b3701ec30fc60", "1bda816adab732", "1c0e7f0ebeea5d", "1c9b61b539452c", "1d31a75879225f", "1f8da27d987206"]
+        }
+    },
+    {
+        id: "p007",
+        category: "recommendation",
+        title: "Hidden Gem",
+        difficulty: 0.6,
+        hints: [
+            "Users argue this item deserves much more attention.",
+            "The thread usually includes reasons it was overlooked.",
+            "A lot of replies become recommendation chains."
+        ],
+        subredditTags: ["r/movies", "r/Music"],
+        digest: {
+            salt: "p007",
+            answerHash: "1272002aed9a9a",
+            answerLength: 10,
+            acceptedHashes: [],
+            nearMissHashes: [],
+            stemHashes: ["1272002aed9a9a"],
+            spellingHashes: ["182643b89aa6db"],
+            typoDepth: 2,
+            typoHashes: ["000a4cc19dd95a", "00330235d2f4e5", "007f9e8a8664f6", "0248c678acf0a2", "025aabe0a82bdd", "027843c0cdb7af", "02d2d8f63c8169", "036427c23a690f", "03e9220967b399", "046be520cd2320", "0533f69848c731", "058efd362bd508", "06c3e4818e2885", "07e016e0f53220", "08684506a96be5", "093e7b6b8d5b82", "09c11feea05eae", "0a9130023743f5", "0bfbc474d9904c", "0c24d3d3614100", "0cad533ac864d8", "0caf91f543c702", "0ec72ea729d9d9", "0eeac544719997", "107acb8d8f0b77", "11797581f70846", "1213ade6bce8a6", "1272002aed9a9a", "14b916c5e777b3", "1676418b83775c", "16e49ec137dc55", "1724f9423ccde8", "17e392942eb097", "182643b89aa6db", "183e636a0d0d2f", "189943c7bcc5e1", "195048de025945", "19b7ce4b937629", "19ceddca7dda17", "1aa47bcd7cfea8", "1c3fbc1770183c", "1c8a73d9249fdb", "1c9ecc11fdd753", "1d2f65adb174e7", "1eb8edf944b524", "1ebf9229b1d7d3", "1fc8c5d54a7987"]
+        }
+    },
+    {
+        id: "p008",
+        category: "reaction",
+        title: "Second-Hand Embarrassment",
+        difficulty: 0.4,
+        hints: [
+            "People react strongly when social mistakes are visible to everyone.",
+            "Commenters physically recoil while still watching to the end.",
+            "The emotion mixes discomfort, humor, and disbelief."
+        ],
+        subredditTags: ["r/CringePurgatory", "r/PublicFreakout"],
+        digest: {
+            salt: "p008",
+            answerHash: "182e39c80df4c8",
+            answerLength: 6,
+            acceptedHashes: [],
+            nearMissHashes: [],
+            stemHashes: ["182e39c80df4c8"],
+            spellingHashes: ["182e39c80df4c8"],
+            typoDepth: 1,
+            typoHashes: ["01a93419a5416a", "01f67cfc4378d2", "072e0cb49eee4e", "093f92f7d305e1", "0b02bd276fc18b", "182e39c80df4c8", "1b1e3059b7fdc8"]
+        }
+    },
+    {
+        id: "p009",
+        category: "mystery",
+        title: "Solve the Case",
+        difficulty: 0.6,
+        hints: [
+            "The thread presents clues and asks readers to infer the culprit.",
+            "People compare evidence and challenge each theory.",
+            "This format rewards close reading and lateral thinking."
+        ],
+        subredditTags: ["r/UnresolvedMysteries", "r/RBI"],
+        digest: {
+            salt: "p009",
+            answerHash: "07bfa2d083a020",
+            answerLength: 8,
+            acceptedHashes: ["1563b5893d875d"],
+            nearMissHashes: [],
+            stemHashes: ["07bfa2d083a020", "1563b5893d875d"],
+            spellingHashes: ["07bfa2d083a020"],
+            typoDepth: 2,
+            typoHashes: ["029b9f25ad55c5", "02e6646873081d", "02f32d42542cb3", "03222a85bde914", "037cb5ae465156", "042848190e895b", "046776257a946b", "04aa5580142a5c", "04f58dedd1010e", "055b86c9ad2cd2", "0576bcf7b9ff23", "07bfa2d083a020", "09826fbb9370e1", "0a16b81a378aa9", "0a4a81ab3f85c5", "0a6ab5928304d5", "0b800ee0ac5d35", "0c69fecc91a043", "0ca73a75dc7053", "0cc5052da70df8", "0d49f4b587345d", "0d588f7fcc879c", "0d8ee41892d3a3", "0dd378a4ab5287", "0ddc20f18495ad", "0e24ab43301dd8", "0f80c89a1953f6", "10c5fd95c44980", "1152caf08f6420", "11c0d557640f07", "11cfd48b0ae2d4", "11dc57b3b9f8c1", "121d86dde6939a", "1265619eec84de", "12e55932539e06", "13da1c46642c19", "147a1544222725", "14d14ee0a18224", "14e2ac3311e5cf", "1508de58bec3f3", "1563b5893d875d", "15740764548813", "15897bcedec2c5", "15fdeacba778bd", "162db04966f386", "1636acfb41c950", "1639c94302d9fa", "1674f826e7afc4", "16bc2db9c9b1fd", "16efe9c5e3b6aa", "17cbb1326cf0a8", "191d3b05b3804c", "1945343ec6269f", "1965795839546b", "19901aaca439e6", "199add8a2f36ac", "1a61a6cace0d99", "1b8699cf75fddf", "1bd8728d783f6b", "1cd38619b51fb2", "1cea62b2697fe9", "1d6f0b70b5e92f", "1d91a9739c0dc4", "1e1aa173da4b13", "1ed362397440c7", "1fca8e87c9a581"]
+        }
+    },
+    {
+        id: "p010",
+        category: "habit",
+        title: "Keep It Going",
+        difficulty: 0.5,
+        hints: [
+            "Players return daily to maintain progress without missing a day.",
+            "The mechanic is simple but drives long-term engagement.",
+            "A miss resets momentum, so consistency matters."
+        ],
+        subredditTags: ["r/theXeffect", "r/GetDisciplined"],
+        digest: {
+            salt: "p010",
+            answerHash: "1427e8365fc1fa",
+            answerLength: 6,
+            acceptedHashes: [],
+            nearMissHashes: [],
+            stemHashes: ["1427e8365fc1fa"],
+            spellingHashes: ["1427e8365fc1fa"],
+            typoDepth: 1,
+            typoHashes: ["0597904aa9292b", "0924bbdac2dd03", "115d5301337ec2", "1427e8365fc1fa", "194ce83233ddd4", "19703174bfd3bf", "1da36b7e7f9b54"]
+        }
+    },
+    {
+        id: "p011",
+        category: "meta",
+        title: "Déjà Vu Scroll",
+        difficulty: 0.4,
+        hints: [
+            "Users in the comments section start debating originality.",
+            "You feel certain you've seen this exact content before.",
+            "The most common accusation in any popular thread."
+        ],
+        subredditTags: ["r/memes", "r/funny"],
+        digest: {
+            salt: "p011",
+            answerHash: "012aee1f0fe8b4",
+            answerLength: 6,
+            acceptedHashes: [],
+            nearMissHashes: [],
+            stemHashes: ["012aee1f0fe8b4"],
+            spellingHashes: ["012aee1f0fe8b4"],
+            typoDepth: 1,
+            typoHashes: ["012aee1f0fe8b4", "0e91b5a820e3f7", "108fc7dbe0caea", "15557bf578d702", "1a839db0558f76", "1ad63b3438c57a", "1fbc38f3446338"]
+        }
+    },
+    {
+        id: "p012",
+        category: "reddit-culture",
+        title: "Internet Points",
+        difficulty: 0.2,
+        hints: [
+            "It's the currency that fuels participation but can't buy anything.",
+            "Some users farm it obsessively with low-effort posts.",
+            "Your total is visible on your profile and signals reputation."
+        ],
+        subredditTags: ["r/help", "r/TheoryOfReddit"],
+        digest: {
+            salt: "p012",
+            answerHash: "0d35cb4ac71835",
+            answerLength: 5,
+            acceptedHashes: [],
+            nearMissHashes: [],
+            stemHashes: ["0d35cb4ac71835"],
+            spellingHashes: ["0d35cb4ac71835"],
+            typoDepth: 1,
+            typoHashes: ["0d35cb4ac71835", "0e98eb9b630f1a", "1539f9158f6699", "17d90f8e848949", "19165bd85a0a46", "1efc670df1e054"]
+        }
+    },
+    {
+        id: "p013",
+        category: "internet-culture",
+        title: "Never Gonna Give You Up",
+        difficulty: 0.3,
+        hints: [
+            "A harmless prank that's been going strong since the 2000s.",
+            "You click a link expecting something else entirely.",
+            "The song is catchy. The betrayal is legendary."
+        ],
+        subredditTags: ["r/rickroll", "r/memes"],
+        digest: {
+            salt: "p013",
+            answerHash: "1985a56be30e9e",
+            answerLength: 8,
+            acceptedHashes: ["0d7c2ae072534c"],
+            nearMissHashes: [],
+            stemHashes: ["0d7c2ae072534c", "1985a56be30e9e"],
+            spellingHashes: ["1579cee2946376", "163759c183342e"],
+            typoDepth: 2,
+            typoHashes: ["001e6489080cdc", "015b372e72e95d", "01cb3acbec59e3", "031d67735b2ef5", "0350b1d63e701f", "03d22c7a225ab2", "03dbd71d65fd95", "03fe9eb7f1158e", "04c3fbb1efbf17", "050356af0eea72", "051b9ddbd16ed5", "063e401d652d16", "0840a965fb1a0e", "0857f0701abe85", "09ac7132df8fb0", "09b6cae7b91d75", "09dc0d1d66a543", "0a35e289959569", "0b9cb124e04e8e", "0c7d19cfc79ff8", "0c800552d6c334", "0cb9ed4d8dda06", "0d7c2ae072534c", "0d9b3ef3832f9f", "0dc44766f57112", "0dc9ad30a435f7", "0e029216fdc4fd", "0e465b56404bff", "0e49d9256e40f1", "0e78481e37f060", "0ecc99ea19c9f4", "0ed71106f5d517", "0f934b0c0d3c20", "100c7ee7d2a2b6", "105d3bea695a56", "108381f27f9021", "10d29a4b0ac7e6", "10d9b499e30cec", "11ceaff9266e93", "1267533e20bade", "137445a83773d1", "13802ebf4f2d79", "13a36c4344c7f5", "13aa7089e34d9e", "13c7a9778fc491", "14976616f45238", "14d6a76ed2325a", "1579cee2946376", "163759c183342e", "172b9cd05d2df4", "174aa8637b44ae", "17d098b76211fa", "1828e1e776fcb7", "1862f140a07e02", "1985a56be30e9e", "19d9ef55460364", "19e7b977b2712b", "1a06a77a76a996", "1abc19d006aad9", "1af0b6efec6dcc", "1af89310c0daad", "1bdac11ea38eae", "1c1668e29c84e6", "1c77691d5011a2", "1cb00f786cf310", "1cb3df96be098d", "1cc51b286dd33d", "1da9e13ae16409", "1db65940cfdcb5", "1dcd4f69c14dd0", "1dff4162146eb8", "1e1d055054328c", "1e3010ed4df41e", "1e67bb9dea1ffe", "1edc470482f6d1", "1fca8ef7668e53"]
+        }
+    },
+    {
+        id: "p014",
+        category: "governance",
+        title: "Guardians of the Thread",
+        difficulty: 0.5,
+        hints: [
+            "Without this, subreddits would descend into spam and toxicity.",
+            "Volunteers enforce rules, remove posts, and ban violators.",
+            "Every community depends on this unpaid labor."
+        ],
+        subredditTags: ["r/modhelp", "r/subredditdrama"],
+        digest: {
+            salt: "p014",
+            answerHash: "1dab6a06e46cc0",
+            answerLength: 10,
+            acceptedHashes: [],
+            nearMissHashes: ["130ed943e68bec", "134029d64113dd", "15f2c524239918"],
+            stemHashes: ["1dab6a06e46cc0"],
+            spellingHashes: ["1dab6a06e46cc0"],
+            typoDepth: 2,
+            typoHashes: ["001c8bf41024a5", "0127b1d3ecd149", "02b128078456d9", "0341d19c2b5197", "040ddbd1173ddb", "043801a74a6f0b", "04528f2e493f1d", "057b29e32ef3c7", "0625d4f2d5e836", "06296689921c1b", "066ef5493f909c", "067ee1f122c573", "068e9b132d1cce", "071152a1c77cdf", "07123f0ac861da", "08c7a27d14f6eb", "09537f3be7716c", "099d65adcb356b", "09a666c0a6a391", "0b8545105b5325", "0b96c8762385bc", "0c1f941ddb8a88", "0d51a8dda54a6e", "0d613471fd69d0", "0d7fb1f839ee77", "0d8840515edb5c", "0ed7ff7033a080", "0ee05f583dceeb", "0f565b4acb651b", "0f634cadaac65f", "0f997e6c749dd8", "0fafc80730c6e4", "11b1e57b93c68b", "11f4c50c3e45aa", "12c8bd53aac762", "12e90139dfcb30", "134a71bcf3285e", "1351b1db1c1f44", "1353afb13a5dff", "174c3c4714fe24", "17ea8e7988e56f", "18c5f502203a31", "1a455a9525fb48", "1aa9df8bd2ea93", "1ab4c823a62507", "1ac8388995e249", "1adaf5955bf39f", "1aeb22640890a8", "1b66c07e092b6a", "1b906c50745721", "1cd68c718d7df7", "1d3e09445d3558", "1dab6a06e46cc0", "1ed7ad6dd169a0", "1f8ed26d8a9439", "1f924ead054e01"]
+        }
+    },
+    {
+        id: "p015",
+        category: "humor",
+        title: "Ctrl+V Comedy",
+        difficulty: 0.6,
+        hints: [
+            "Long blocks of text that spread through repetition and absurdity.",
+            "The original meaning is lost — now it's pure meme fuel.",
+            "Navy Seal, gorilla warfare, and tendies are classic examples."
+        ],
+        subredditTags: ["r/copypasta", "r/shitposting"],
+        digest: {
+            salt: "p015",
+            answerHash: "1db2742182c74f",
+            answerLength: 9,
+            acceptedHashes: [],
+            nearMissHashes: [],
+            stemHashes: ["1db2742182c74f"],
+            spellingHashes: ["1db2742182c74f"],
+            typoDepth: 2,
+            typoHashes: ["0010635eca707e", "00be3826dfa35b", "022241329ebb1b", "03c386b268fb9c", "03d7818e1ecded", "055cbded64b151", "06d234c64c2548", "0750c0cd36469b", "08127c63d6ebf1", "086d4be71ac39d", "094901500f5b84", "09c2cd18103d21", "0a43432aab5131", "0a616693aea296", "0b27c10a698935", "0b4c6ec8573832", "0b6ba0a8284960", "0b912fc45b5f32", "0ba7db81d92d36", "0c4f17d34b088f", "0c9f0dc227e310", "0c9f3f485d6006", "0f134220cd045a", "0f2668afe063a6", "0f80cecae585ba", "0fa28af5809bae", "1015ca735810d4", "12ce3ea5b08a09", "14a9902026c4e6", "15aa56e3bb04b8", "171cc69f05896a", "176b432624c19e", "17ea4d285f2187", "19489dcc0be00c", "1a38b8927f91a0", "1b6cdbe1e265a5", "1d0ddba234be92", "1d2e3141a52cc5", "1db2742182c74f", "1e00356e1af84b", "1e69ec0b0f4fd3", "1f5695e147482d", "1f5f3dfac92b28", "1fc887ecc46aa9", "1ffaa2c6076226"]
+        }
+    },
+    {
+        id: "p016",
+        category: "confession",
+        title: "Anonymous Account",
+        difficulty: 0.5,
+        hints: [
+            "Created specifically so the main account stays clean.",
+            "Often used to share deeply personal or embarrassing stories.",
+            "The username usually starts with a telltale phrase."
+        ],
+        subredditTags: ["r/confessions", "r/relationship_advice"],
+        digest: {
+            salt: "p016",
+            answerHash: "026edc472d1575",
+            answerLength: 9,
+            acceptedHashes: [],
+            nearMissHashes: [],
+            stemHashes: ["026edc472d1575"],
+            spellingHashes: ["026edc472d1575"],
+            typoDepth: 2,
+            typoHashes: ["008e41407d9b48", "00c99c2c590ebc", "019d7c832560a1", "026edc472d1575", "02b57624ca56cd", "0401a47702dcfe", "04189a42c170bb", "0440c9a729f977", "044bae297da133", "04eb3fb03f2433", "05143411fbd5b3", "052da3add04d43", "07ca23057ccc57", "08d0127553ea23", "0bd206c64855d3", "0c62f35cf98cf3", "0d6218b112050e", "0ee1ce0734cf6b", "0f9ee648fe8af8", "0feb37c3a5ef5b", "1217c2c0082da6", "123e319bec8202", "126bd3b9cc0f2c", "14aef1e5ad9f28", "14c9a113dba968", "150728f0d5d911", "1519a066c585c5", "153409a091650f", "157cd8248e72b7", "15b9a8ed2d9da0", "163cdd528944d5", "1674be3d7f000a", "180cee1dcdc80e", "18b08014a17361", "193d75b040a4aa", "198544ed34a5c5", "1a802e51ac2784", "1bb1a463223897", "1be382fa2c20de", "1c25d40e3fd333", "1c685c3edb5c48", "1d104199c648a0", "1d9eadbba70794", "1f63c8a1563271"]
+        }
+    },
+    {
+        id: "p017",
+        category: "behavior",
+        title: "Silent Observer",
+        difficulty: 0.4,
+        hints: [
+            "They read every comment but never post or reply.",
+            "Statistically, this describes the vast majority of users.",
+            "Some eventually 'de-cloak' with an apologetic first comment."
+        ],
+        subredditTags: ["r/AskReddit", "r/memes"],
+        digest: {
+            salt: "p017",
+            answerHash: "0a6e618fe5bbd9",
+            answerLength: 6,
+            acceptedHashes: [],
+            nearMissHashes: [],
+            stemHashes: ["0a6e618fe5bbd9"],
+            spellingHashes: ["0a6e618fe5bbd9"],
+            typoDepth: 1,
+            typoHashes: ["0199143758f84c", "0a1093f6364fbe", "0a6e618fe5bbd9", "0c4e69776377a4", "178a065052a699", "18ed44aac37984", "1c49e234fdc2b9"]
+        }
+    },
+    {
+        id: "p018",
+        category: "mechanics",
+        title: "Shared Across Borders",
+        difficulty: 0.5,
+        hints: [
+            "Content from one community appears in another with attribution.",
+            "It's an official feature that gives credit to the original poster.",
+            "Useful when a post fits multiple subreddits equally well."
+        ],
+        subredditTags: ["r/help", "r/TheoryOfReddit"],
+        digest: {
+            salt: "p018",
+            answerHash: "0477fa9a48a722",
+            answerLength: 9,
+            acceptedHashes: [],
+            nearMissHashes: [],
+            stemHashes: ["0477fa9a48a722"],
+            spellingHashes: ["1e5a2818cfb0ed"],
+            typoDepth: 2,
+            typoHashes: ["00cb7449053f1e", "00da3a860ddf4b", "015607bb1c1c03", "027e02d2cb95c5", "02cfbfd123537e", "02d7fb5b7224a2", "042417912ea196", "044f68951343c3", "0477fa9a48a722", "05a7be228e7e47", "06117f9abff6ff", "09c2f25778fe20", "0a3b72e6df1f42", "0b68948d5fddb9", "0b8fce32669651", "0ca51f3d99ab78", "0cbaeb1b5560a3", "0d30edece8c058", "0f081faafbe353", "0f835e53cbe820", "122958095cd044", "124c5ef695dd5e", "12fdbba82304dc", "13f72852ddef0e", "141fc521e77b3b", "14b1d0b98d94ce", "14b28f94263520", "17404e13953d13", "17d08ca2514173", "18c2aa9fe44b3f", "1959679fad66f0", "19a0bfe3e42c84", "1be82d83af7f62", "1bfa17b0e4fcf5", "1d53d6bcbecd52", "1e5a2818cfb0ed", "1fa969660fe4c7", "1fddd076534aaf"]
+        }
+    },
+    {
+        id: "p019",
+        category: "inside-joke",
+        title: "Universal Scale",
+        difficulty: 0.7,
+        hints: [
+            "Redditors use this item to show real-world size of objects.",
+            "It started as a joke and became an unwritten standard.",
+            "No ruler needed when you have this fruit for comparison."
+        ],
+        subredditTags: ["r/mildlyinteresting", "r/BananasForScale"],
+        digest: {
+            salt: "p019",
+            answerHash: "0d7c8e2fb1b910",
+            answerLength: 6,
+            acceptedHashes: [],
+            nearMissHashes: [],
+            stemHashes: ["0d7c8e2fb1b910"],
+            spellingHashes: ["0d7c8e2fb1b910"],
+            typoDepth: 1,
+            typoHashes: ["051a24aa051b1c", "0c9df8799438fc", "0d7c8e2fb1b910", "0fe2e7087424bd", "1920af8b3b9059", "1a1ac74ecd4daf", "1c28b98421e295"]
+        }
+    },
+    {
+        id: "p020",
+        category: "phenomenon",
+        title: "Collective Agreement",
+        difficulty: 0.5,
+        hints: [
+            "When the majority opinion dominates and dissent gets buried.",
+            "Upvotes create a feedback loop that reinforces popular views.",
+            "Critics say it suppresses original thought in large subreddits."
+        ],
+        subredditTags: ["r/TheoryOfReddit", "r/unpopularopinion"],
+        digest: {
+            salt: "p020",
+            answerHash: "07f0ba1dc71046",
+            answerLength: 8,
+            acceptedHashes: [],
+            nearMissHashes: [],
+            stemHashes: ["07f0ba1dc71046"],
+            spellingHashes: ["07f0ba1dc71046"],
+            typoDepth: 2,
+            typoHashes: ["0023bd11d9f5e7", "007abfa9f3a6a8", "012abc2a68a7dc", "02505f2de90223", "04dec785343956", "0633cfd1fb4fe1", "069012f5eb3b55", "06c1235f3b627f", "06e5237e30ea02", "06feaefedb48ca", "071006a42f447e", "0797f6f0a755a7", "07ae1630c8b9d5", "07f0ba1dc71046", "0813e296282680", "09bfd35cd436b7", "0a6fc812aa9e02", "0c16d3883f4f91", "0c83ff5033b654", "0e386934d583aa", "0f2eb04095e1b3", "0f443cd0c9e8c5", "10d9d2e16e7795", "121229b9d1438d", "138944732ef4d5", "13efde22708389", "161c3f3d4c0a2a", "1841adc2a34a9b", "18ac767b0d8068", "18ae80ceceeb38", "19042c2fa576ad", "19995d16302a83", "1aa289fb420089", "1b1c4e742326a7", "1d758f87e2ade8", "1e9a49a50bdef1", "1f9f94f0de971c"]
+        }
+    },
+    {
+        id: "p021",
+        category: "customization",
+        title: "Badge of Identity",
+        difficulty: 0.5,
+        hints: [
+            "A small label next to your username that shows team or role.",
+            "Some subreddits require it before you can post.",
+            "It can be text, an emoji, or both — depending on community rules."
+        ],
+        subredditTags: ["r/help", "r/nfl"],
+        digest: {
+            salt: "p021",
+            answerHash: "01affd08c6544c",
+            answerLength: 5,
+            acceptedHashes: [],
+            nearMissHashes: [],
+            stemHashes: ["01affd08c6544c"],
+            spellingHashes: ["01affd08c6544c"],
+            typoDepth: 1,
+            typoHashes: ["01affd08c6544c", "02d96c979b8a39", "1622710b19978c", "17a0991b987219", "19c3295e3dc1ed", "1bf7eed7595cc9"]
+        }
+    },
+    {
+        id: "p022",
+        category: "storytelling",
+        title: "Mistake Made Public",
+        difficulty: 0.7,
+        hints: [
+            "Four letters that preface the most entertaining confessions.",
+            "Stories range from minor embarrassment to life-altering blunders.",
+            "Half the fun is reading comments that say 'this isn't that bad.'"
+        ],
+        subredditTags: ["r/tifu", "r/AskReddit"],
+        digest: {
+            salt: "p022",
+            answerHash: "0757574d071342",
+            answerLength: 4,
+            acceptedHashes: [],
+            nearMissHashes: [],
+            stemHashes: ["0757574d071342"],
+            spellingHashes: ["0757574d071342"],
+            typoDepth: 0,
+            typoHashes: ["0757574d071342"]
+        }
+    },
+    {
+        id: "p023",
+        category: "mechanics",
+        title: "Arrow of Approval",
+        difficulty: 0.2,
+        hints: [
+            "One click to show agreement, appreciation, or 'this is funny.'",
+            "The direction is always skyward — toward visibility.",
+            "Enough of these and a post reaches the front page."
+        ],
+        subredditTags: ["r/help", "r/TheoryOfReddit"],
+        digest: {
+            salt: "p023",
+            answerHash: "1e3e260a65c9f3",
+            answerLength: 6,
+            acceptedHashes: [],
+            nearMissHashes: [],
+            stemHashes: ["1e3e260a65c9f3"],
+            spellingHashes: ["1e3e260a65c9f3"],
+            typoDepth: 1,
+            typoHashes: ["02e77f7c1bf58d", "09301d432f8678", "0acd624739efad", "0fbd04b990af54", "14017eb590d59e", "149a5e171e0a9e", "1e3e260a65c9f3"]
+        }
+    },
+    {
+        id: "p024",
+        category: "experience",
+        title: "Time Vanished",
+        difficulty: 0.5,
+        hints: [
+            "You clicked on one link, then another, and suddenly it's 3 AM.",
+            "Wikipedia, Reddit threads, and YouTube all enable this behavior.",
+            "The deeper you go, the further from the original topic you drift."
+        ],
+        subredditTags: ["r/InternetIsBeautiful", "r/wikipedia"],
+        digest: {
+            salt: "p024",
+            answerHash: "1150003081326f",
+            answerLength: 10,
+            acceptedHashes: [],
+            nearMissHashes: ["13e664e3fda1d6"],
+            stemHashes: ["1150003081326f"],
+            spellingHashes: ["1340e550f3df68"],
+            typoDepth: 2,
+            typoHashes: ["0031a1b21f6189", "03391bb8c6695e", "03d738ac2e8011", "0466fd582d99ce", "04c8bef343b662", "058c9a82820d54", "05cb1d976e496e", "05ffbd7c885f8a", "06b2dfa2485b8a", "06e9226fc74f96", "071945dbfce2bb", "07df18f4716ae1", "09aa5897faec34", "09f98592aa3d59", "0b6520a11078a0", "0c7e5347e7b48a", "0d4c550cc9407f", "0e57d42ab599eb", "0ecc1319839652", "10286d02a2070b", "10f33b630349b3", "1150003081326f", "1194734e78d6ce", "11b381c0179688", "12d7433a999a9a", "1340e550f3df68", "1383e2c9155755", "13b9a5bafd9992", "141195ab40790f", "14b39ef0ee6809", "152887121ef839", "158f6b170e42f0", "1592e990af9bdc", "164271598ab86a", "17038b314f1f0f", "19468e8fc0f6ab", "1987814e529e55", "1baaf948dde102", "1c03ec0baeb631", "1c5633af21c227", "1c91cd3442894b", "1ca59a1d42f8de", "1cb462a0b68c17", "1cbea8f7c5799c", "1ec695cdd8a3bc", "1f4da7bebdb5eb", "1f6e8fce0dd1e2"]
+        }
+    },
+    {
+        id: "p025",
+        category: "pets",
+        title: "Bowl Buddy",
+        difficulty: 0.7,
+        hints: [
+            "A common first pet that lives in a small glass container.",
+            "Despite myths, they can actually remember things for months.",
+            "Posts about these creatures often reveal surprisingly long lifespans."
+        ],
+        subredditTags: ["r/Aquariums", "r/pets"],
+        digest: {
+            salt: "p025",
+            answerHash: "1560ee2a08cdff",
+            answerLength: 8,
+            acceptedHashes: [],
+            nearMissHashes: [],
+            stemHashes: ["1560ee2a08cdff"],
+            spellingHashes: ["1560ee2a08cdff"],
+            typoDepth: 2,
+            typoHashes: ["01119d9e9398a2", "020b05126a0822", "02d3a93de913b8", "0645b987fa7781", "07536f882f3841", "077d9a879a74d1", "081677f82a9729", "082ef0192095e1", "09e052167e4fef", "0a08294056950e", "0c9041ef4b83ab", "0ccf6171847537", "0ddf73129aed62", "0df41702625d13", "0e9ee02f9c02bd", "0fae685fe4d3df", "10d04b0e4a4477", "12daf0df47fdf8", "13aa6bccb8574c", "144aac06e3710c", "1560ee2a08cdff", "156e39615ecd89", "15c6ddd99c2ec5", "16d53a948255ae", "1839c54976753f", "19461191c4438b", "1a6d7abd673087", "1ae985d34d0812", "1af39e231fad1c", "1b0007553ae9e3", "1b90cceb00a030", "1cb89789a7f2d8", "1e0d2f645b1a0f", "1ea7c7c3102ca2", "1ec7e2094011ae", "1f05fa2c302c08", "1fbbbbd687cf7c"]
+        }
+    },
+    {
+        id: "p026",
+        category: "culture",
+        title: "Shared Language",
+        difficulty: 0.2,
+        hints: [
+            "An image, video, or phrase that spreads rapidly across the internet.",
+            "The best ones capture a universal feeling in a single frame.",
+            "They evolve, get remixed, and eventually die — only to be reborn."
+        ],
+        subredditTags: ["r/memes", "r/dankmemes"],
+        digest: {
+            salt: "p026",
+            answerHash: "1006a8de9a7571",
+            answerLength: 4,
+            acceptedHashes: [],
+            nearMissHashes: [],
+            stemHashes: ["1006a8de9a7571"],
+            spellingHashes: ["1006a8de9a7571"],
+            typoDepth: 0,
+            typoHashes: ["1006a8de9a7571"]
+        }
+    },
+    {
+        id: "p027",
+        category: "structure",
+        title: "Community Within a Community",
+        difficulty: 0.2,
+        hints: [
+            "Every topic, hobby, and niche has its own dedicated space.",
+            "Prefixed with 'r/' and managed by volunteer moderators.",
+            "There are millions of these, from r/cats to r/astrophysics."
+        ],
+        subredditTags: ["r/help", "r/findareddit"],
+        digest: {
+            salt: "p027",
+            answerHash: "1e5569bc539a0a",
+            answerLength: 9,
+            acceptedHashes: [],
+            nearMissHashes: [],
+            stemHashes: ["1e5569bc539a0a"],
+            spellingHashes: ["0db32b97731293"],
+            typoDepth: 2,
+            typoHashes: ["0109a9f5aae6ef", "05852060b3a059", "07c63449535571", "07dd76481ac8a5", "084f3b8e63f9b7", "085c95a257b7c6", "088dbdf7cb2e79", "08a921f3baf8d0", "093ac41a668390", "0b0f878f1475c4", "0b366512d5864e", "0b55c858320be2", "0bc0d2b446276c", "0cd5512531aa99", "0cdfebf8e7ec72", "0d662316afab27", "0d88fbe4aa3b6e", "0db32b97731293", "0e88068f49d91b", "0ebd1e400f4772", "111d97a95b1282", "126d7cca15101b", "148b9827c824e7", "151285e2ed676f", "159570582dd86a", "16569d17de62e6", "1993733331f334", "1aaec5f861d261", "1ae2edbbc26dff", "1b623c97d6ecfd", "1b8a7fe8e28223", "1c541cd94cc470", "1c97b486fc5d35", "1c9eda239730c6", "1d579e5ad664d4", "1e5569bc539a0a", "1e86f08d8a6944", "1fdc00aa2d60cd"]
+        }
+    },
+    {
+        id: "p028",
+        category: "achievement",
+        title: "Peak Visibility",
+        difficulty: 0.4,
+        hints: [
+            "Getting here means thousands or millions will see your content.",
+            "It's the ultimate validation for a Reddit post.",
+            "An algorithm decides what rises to this coveted spot."
+        ],
+        subredditTags: ["r/all", "r/popular"],
+        digest: {
+            salt: "p028",
+            answerHash: "1511d152d2833d",
+            answerLength: 9,
+            acceptedHashes: [],
+            nearMissHashes: [],
+            stemHashes: ["1511d152d2833d"],
+            spellingHashes: ["1511d152d2833d"],
+            typoDepth: 2,
+            typoHashes: ["000b79cd1291c5", "00f7932cf75050", "03ec8b43d6aee7", "04970eb44bad14", "049f0ede8fc17d", "04b38901b62a4c", "05629985d6c7f7", "06149a7032cacf", "06de74b1469965", "0782f028f37ffe", "07978f513900b0", "08c67e6cbc99e6", "0943dcc6f440e2", "0a39eb9e55b111", "0a502f7b6219d1", "0abc4425d26206", "0adf8a24f8d464", "0b0493e478de64", "0bfaafba46ef3e", "0d6207f0a381c4", "0f813f630a0792", "0fb27916c70bb6", "114e04e839e9f1", "117c4063a79cfa", "127d4abaca3bef", "1280b44db3d2ef", "130b55dab22bb5", "131f355336bd19", "133c4929b4221a", "13c7fbe0e1a420", "14b0a5653c63f8", "1511d152d2833d", "167401c390d7c9", "173ea39a648dd0", "17caa2796b72ad", "1913ff1de50c5c", "19776e37f57c75", "19fe65bdb057c7", "1ab1d55eb731f6", "1ab836a59bbb51", "1b5994b913a0b1", "1b64d0433a2879", "1d4f8a3f7c0355", "1ee67380a51dae", "1f12b5f575df02", "1f3c4032088a9f"]
+        }
+    },
+    {
+        id: "p029",
+        category: "tradition",
+        title: "Anniversary Slice",
+        difficulty: 0.4,
+        hints: [
+            "A small icon appears next to your name on this special day.",
+            "It celebrates the date your account was created.",
+            "Posts mentioning it often receive extra goodwill and upvotes."
+        ],
+        subredditTags: ["r/cakeday", "r/memes"],
+        digest: {
+            salt: "p029",
+            answerHash: "03697763c7fa35",
+            answerLength: 7,
+            acceptedHashes: [],
+            nearMissHashes: [],
+            stemHashes: ["03697763c7fa35"],
+            spellingHashes: ["03697763c7fa35"],
+            typoDepth: 1,
+            typoHashes: ["00184e7e584bf7", "03697763c7fa35", "0606d116b3bbdc", "0d78aeb2cf5ff8", "0db11dce5cb57c", "150ee6e10b2517", "1c181c3091ca83", "1c34ce5357a14a"]
+        }
+    },
+    {
+        id: "p030",
+        category: "humor",
+        title: "Low Effort, High Impact",
+        difficulty: 0.5,
+        hints: [
+            "Created with minimal effort but maximum comedic absurdity.",
+            "Quality is intentionally low — that's the entire point.",
+            "Some communities are dedicated exclusively to this art form."
+        ],
+        subredditTags: ["r/shitposting", "r/okbuddyretard"],
+        digest: {
+            salt: "p030",
+            answerHash: "07ed44a6de7a18",
+            answerLength: 8,
+            acceptedHashes: [],
+            nearMissHashes: [],
+            stemHashes: ["07ed44a6de7a18"],
+            spellingHashes: ["07ed44a6de7a18"],
+            typoDepth: 2,
+            typoHashes: ["001811974568b4", "006c73fdd64671", "01fefe4cac01e2", "0212df90ac2559", "025356d08d8da6", "025a51c9bb086c", "030631471bbf08", "062e47613d723d", "069488e6fe03c5", "06db41471235e0", "0769d9b4f4badf", "07ed44a6de7a18", "0952a2696335e5", "0a2ea6bf4b4947", "0ab2a7b6ebb632", "0cee4bf6ba267d", "0e7ff02a6967a0", "0f13310fad5f11", "10e8760e8543e2", "1283b92fd841de", "12da685e43e42b", "12e3049bbc7c7b", "13e249be87488c", "14a31a67495b34", "154758681f65fe", "15d1d6d78e0e37", "15ee342b80e17e", "16fd450157a086", "172675853c0783", "1890ef2e136d70", "18fc744f2f5789", "19a36dba92893f", "1aa111f3ce390d", "1d332a9871fa2d", "1da58ced286447", "1f806d0368ce27", "1f9b7dc02e1f86"]
+        }
+    },
+    {
+        id: "p031",
+        category: "technology",
+        title: "Seeing Isn't Believing",
+        difficulty: 0.5,
+        hints: [
+            "AI-generated media that makes anyone say or do anything.",
+            "The realism has improved so much that detection is difficult.",
+            "Ethical concerns around consent and misinformation are huge."
+        ],
+        subredditTags: ["r/technology", "r/Futurology"],
+        digest: {
+            salt: "p031",
+            answerHash: "1ee74103590822",
+            answerLength: 8,
+            acceptedHashes: [],
+            nearMissHashes: [],
+            stemHashes: ["1ee74103590822"],
+            spellingHashes: ["1df53078d91de0"],
+            typoDepth: 2,
+            typoHashes: ["02271f88693f63", "02f5766b86afe3", "034d9ac06915a1", "0390b35b732464", "0784fbcf1ccb9f", "078d5361ca3792", "08d59532d22458", "0b8a3796f56f52", "0cf2aae77848b3", "0db6659c439649", "0e26c59b5bd11b", "0f5254631f6d0f", "0f91ceabdceb23", "11e562ee37bd0e", "150aeac3d19e80", "1579a2dde72fcd", "15ed8b523579f7", "18a4b491c98683", "18a9c54e9a4115", "1a0a0269b86167", "1af55145ca8d3e", "1b70fa385771fc", "1dd7f0c4013468", "1df53078d91de0", "1e773e35de8d0e", "1e84aaacbe6820", "1eb4209c713b8c", "1ee70d40eb9cd5", "1ee74103590822", "1f93c695d82c8e"]
+        }
+    },
+    {
+        id: "p032",
+        category: "reward",
+        title: "Golden Recognition",
+        difficulty: 0.6,
+        hints: [
+            "When someone spends real money to highlight your contribution.",
+            "A shiny icon appears next to the post or comment.",
+            "The recipient gets special perks and access to an exclusive lounge."
+        ],
+        subredditTags: ["r/help", "r/lounge"],
+        digest: {
+            salt: "p032",
+            answerHash: "0ec3c8bf00d7a8",
+            answerLength: 6,
+            acceptedHashes: [],
+            nearMissHashes: ["04c3e0fe3c2860", "0cef352f55d34d", "132a35c178cc4b"],
+            stemHashes: ["0ec3c8bf00d7a8"],
+            spellingHashes: ["0ec3c8bf00d7a8"],
+            typoDepth: 1,
+            typoHashes: ["0471c0a34ca5bf", "095125b68a16ff", "0a66df5144f653", "0e60de044036c1", "0ec3c8bf00d7a8", "16762b3b87fd1d", "1dea4d99468bb1"]
+        }
+    },
+    {
+        id: "p033",
+        category: "writing",
+        title: "Serious About Not Being Serious",
+        difficulty: 0.6,
+        hints: [
+            "It looks real, reads real, but the intention is mockery.",
+            "The best versions make you question if the author is joking.",
+            "Subreddits dedicated to this often get mistaken for genuine belief."
+        ],
+        subredditTags: ["r/TheOnion", "r/nottheonion"],
+        digest: {
+            salt: "p033",
+            answerHash: "1cdec15ab68828",
+            answerLength: 6,
+            acceptedHashes: [],
+            nearMissHashes: [],
+            stemHashes: ["1cdec15ab68828"],
+            spellingHashes: ["01ee1b3212cd82"],
+            typoDepth: 1,
+            typoHashes: ["023c26cf685e23", "04ed10e2c4b736", "08430cd960f407", "0c558d4f9c3935", "0daa699124f587", "1597ef92fe8e19", "1cdec15ab68828"]
+        }
+    },
+    {
+        id: "p034",
+        category: "automation",
+        title: "Not a Real Person",
+        difficulty: 0.3,
+        hints: [
+            "It replies instantly with formatted information or a reminder.",
+            "Some are helpful, some are annoying, some are malicious.",
+            "Auto-moderator is the most well-known example on this platform."
+        ],
+        subredditTags: ["r/BotDefense", "r/SubSimulatorGPT2"],
+        digest: {
+            salt: "p034",
+            answerHash: "1a71dc89c750ee",
+            answerLength: 3,
+            acceptedHashes: [],
+            nearMissHashes: ["01cb9563b7407c", "1b3902879299e1"],
+            stemHashes: ["1a71dc89c750ee"],
+            spellingHashes: ["1a71dc89c750ee"],
+            typoDepth: 0,
+            typoHashes: ["1a71dc89c750ee"]
+        }
+    },
+    {
+        id: "p035",
+        category: "format",
+        title: "Open Questions",
+        difficulty: 0.4,
+        hints: [
+            "Three letters that invite the internet to interrogate you.",
+            "Celebrities, scientists, and everyday people have done them.",
+            "The most famous one involved a sitting U.S. president."
+        ],
+        subredditTags: ["r/AMA", "r/IAmA"],
+        digest: {
+            salt: "p035",
+            answerHash: "1fdd0eee601333",
+            answerLength: 3,
+            acceptedHashes: ["02642d33240d1a", "1baf421268d895"],
+            nearMissHashes: [],
+            stemHashes: ["02642d33240d1a", "1baf421268d895", "1fdd0eee601333"],
+            spellingHashes: ["02642d33240d1a", "1baf421268d895", "1fdd0eee601333"],
+            typoDepth: 2,
+            typoHashes: ["0033433a644a6b", "0073026ca0442a", "00d7117d1c696e", "01461afb4c14c7", "016fe8db93ac32", "018c1cfb54dd3d", "01e187a8ec68b4", "0210a4c6f8e6de", "0246a2dc00ec87", "02642d33240d1a", "03196410178d98", "035188cc66394b", "036d4d9a75cdc8", "044743cc603e68", "04a19889968306", "04a60dc7dac292", "056159b865832d", "05a4892bfd2808", "05a67dcd833301", "05aa55b462765e", "06af8d44d4fe2d", "06b633b8322c5c", "06b7863cf4a430", "06c299f80add09", "073f7ae4196955", "079eabdf5c4614", "07d0f3849decca", "08d2a4539b5b1b", "09a5be2f22084b", "0a001320a48086", "0bd1ce8ab7fb33", "0c07cf9d416fa9", "0c5be6c56a8869", "0cb082827833e6", "0ccecdf34c2ade", "0ce34b99b5d775", "0cf94e233eadf7", "0d77b71c11459e", "0dcddf21cbee2e", "0e63477923381a", "0eadce38969c74", "0ebbef719d058d", "0efa4f333de5ae", "0f44183a28abfe", "0f49310865eb40", "0f82ec527410a8", "0fd417c17fef2a", "101f57304258b4", "10255fdd5ec03b", "10bd6941dec91f", "126bf42364c635", "12760d8c4b4c1b", "129aa9ee73fa61", "13207d81976e2e", "13ae521c42d746", "13c549b8806b55", "13e6cb20da5428", "14270f522ea47e", "14a2481fb2f91b", "1586453c37967a", "15f8137a200261", "162e74ba7363c2", "169bdc96429853", "16cb4acfbe71e6", "174804cccee072", "17a404a8fb3432", "17bcd59364846d", "186778d02c653d", "18d26ccb14826d", "18dae065acff1e", "192ff01244704b", "19fbb32c268d7b", "1a6773cfb5c691", "1a7fc2b7431086", "1a9c7788223458", "1aaddad834a128", "1b016df729c43b", "1b08ab94a74ccf", "1b2a1ebeda8e6d", "1b36c14dd1cd5d", "1b7a4946ed6107", "1baf421268d895", "1c3ade58a0e004", "1c5982f5f40037", "1ce1643de79b25", "1d58d0f0e608ed", "1d8d4eb84594f4", "1d9920fd822981", "1daddee9b06c08", "1e3eb1b3174461", "1e58b89ea4e6e6", "1ed878c58db4af", "1ee344917cd708", "1fdd0eee601333"]
+        }
+    }
+];
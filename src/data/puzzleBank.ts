@@ -1,8 +1,12 @@
 export interface Puzzle {
     id: string;
     answer: string;
+    acceptedAnswers?: string[];
+    nearMisses?: string[];
+    nearMissPolicy?: "free" | "counted" | "off";
     category: string;
     title: string;
+    difficulty: number; // 0 (easy) to 1 (hard)
     hints: string[];
     subredditTags: string[];
 }
@@ -13,6 +17,7 @@ export const puzzleBank: Puzzle[] = [
         answer: "wholesome",
         category: "community-vibe",
         title: "Faith in Humans",
+        difficulty: 0.3,
         hints: [
             "This post type usually gets people saying, 'I needed this today.'",
             "It often features strangers helping each other with no strings attached.",
@@ -25,6 +30,7 @@ export const puzzleBank: Puzzle[] = [
         answer: "nostalgia",
         category: "memory",
         title: "Back in the Day",
+        difficulty: 0.4,
         hints: [
             "This feeling spikes when people post old gadgets, cartoons, or school memories.",
             "Comments often include phrases like 'core memory unlocked.'",
@@ -37,6 +43,7 @@ export const puzzleBank: Puzzle[] = [
         answer: "chaos",
         category: "thread-energy",
         title: "Comment Spiral",
+        difficulty: 0.5,
         hints: [
             "The top comment is normal, then everything derails quickly.",
             "Usually paired with absurd memes, bad puns, and escalating jokes.",
@@ -47,8 +54,10 @@ export const puzzleBank: Puzzle[] = [
     {
         id: "p004",
         answer: "plottwist",
+        nearMisses: ["twist"],
         category: "story",
         title: "Not What You Expected",
+        difficulty: 0.5,
         hints: [
             "A post starts one way, then reveals a very different outcome.",
             "Readers often edit their comments after seeing new context.",
@@ -61,6 +70,7 @@ export const puzzleBank: Puzzle[] = [
         answer: "debate",
         category: "discussion",
         title: "Hot Take Hour",
+        difficulty: 0.5,
         hints: [
             "People split into camps and defend opinions with long replies.",
             "Most threads have strong arguments from both sides.",
@@ -71,8 +81,10 @@ export const puzzleBank: Puzzle[] = [
     {
         id: "p006",
         answer: "speedrun",
+        nearMisses: ["speedrunning", "speedrunner"],
         category: "gaming",
         title: "Fastest Route",
+        difficulty: 0.4,
         hints: [
             "The objective is to finish as quickly as possible under shared rules.",
             "Players optimize every second and discover tiny time saves.",
@@ -85,6 +97,7 @@ export const puzzleBank: Puzzle[] = [
         answer: "underrated",
         category: "recommendation",
         title: "Hidden Gem",
+        difficulty: 0.6,
         hints: [
             "Users argue this item deserves much more attention.",
             "The thread usually includes reasons it was overlooked.",
@@ -97,6 +110,7 @@ export const puzzleBank: Puzzle[] = [
         answer: "cringe",
         category: "reaction",
         title: "Second-Hand Embarrassment",
+        difficulty: 0.4,
         hints: [
             "People react strongly when social mistakes are visible to everyone.",
             "Commenters physically recoil while still watching to the end.",
@@ -107,8 +121,10 @@ export const puzzleBank: Puzzle[] = [
     {
         id: "p009",
         answer: "whodunit",
+        acceptedAnswers: ["whodunnit"],
         category: "mystery",
         title: "Solve the Case",
+        difficulty: 0.6,
         hints: [
             "The thread presents clues and asks readers to infer the culprit.",
             "People compare evidence and challenge each theory.",
@@ -121,6 +137,7 @@ export const puzzleBank: Puzzle[] = [
         answer: "streak",
         category: "habit",
         title: "Keep It Going",
+        difficulty: 0.5,
         hints: [
             "Players return daily to maintain progress without missing a day.",
             "The mechanic is simple but drives long-term engagement.",
@@ -133,6 +150,7 @@ export const puzzleBank: Puzzle[] = [
         answer: "repost",
         category: "meta",
         title: "Déjà Vu Scroll",
+        difficulty: 0.4,
         hints: [
             "Users in the comments section start debating originality.",
             "You feel certain you've seen this exact content before.",
@@ -145,6 +163,7 @@ export const puzzleBank: Puzzle[] = [
         answer: "karma",
         category: "reddit-culture",
         title: "Internet Points",
+        difficulty: 0.2,
         hints: [
             "It's the currency that fuels participation but can't buy anything.",
             "Some users farm it obsessively with low-effort posts.",
@@ -155,8 +174,10 @@ export const puzzleBank: Puzzle[] = [
     {
         id: "p013",
         answer: "rickroll",
+        acceptedAnswers: ["rickrolled"],
         category: "internet-culture",
         title: "Never Gonna Give You Up",
+        difficulty: 0.3,
         hints: [
             "A harmless prank that's been going strong since the 2000s.",
             "You click a link expecting something else entirely.",
@@ -167,8 +188,10 @@ export const puzzleBank: Puzzle[] = [
     {
         id: "p014",
         answer: "moderation",
+        nearMisses: ["moderator", "mods", "modding"],
         category: "governance",
         title: "Guardians of the Thread",
+        difficulty: 0.5,
         hints: [
             "Without this, subreddits would descend into spam and toxicity.",
             "Volunteers enforce rules, remove posts, and ban violators.",
@@ -181,6 +204,7 @@ export const puzzleBank: Puzzle[] = [
         answer: "copypasta",
         category: "humor",
         title: "Ctrl+V Comedy",
+        difficulty: 0.6,
         hints: [
             "Long blocks of text that spread through repetition and absurdity.",
             "The original meaning is lost — now it's pure meme fuel.",
@@ -193,6 +217,7 @@ export const puzzleBank: Puzzle[] = [
         answer: "throwaway",
         category: "confession",
         title: "Anonymous Account",
+        difficulty: 0.5,
         hints: [
             "Created specifically so the main account stays clean.",
             "Often used to share deeply personal or embarrassing stories.",
@@ -205,6 +230,7 @@ export const puzzleBank: Puzzle[] = [
         answer: "lurker",
         category: "behavior",
         title: "Silent Observer",
+        difficulty: 0.4,
         hints: [
             "They read every comment but never post or reply.",
             "Statistically, this describes the vast majority of users.",
@@ -217,6 +243,7 @@ export const puzzleBank: Puzzle[] = [
         answer: "crosspost",
         category: "mechanics",
         title: "Shared Across Borders",
+        difficulty: 0.5,
         hints: [
             "Content from one community appears in another with attribution.",
             "It's an official feature that gives credit to the original poster.",
@@ -229,6 +256,7 @@ export const puzzleBank: Puzzle[] = [
         answer: "banana",
         category: "inside-joke",
         title: "Universal Scale",
+        difficulty: 0.7,
         hints: [
             "Redditors use this item to show real-world size of objects.",
             "It started as a joke and became an unwritten standard.",
@@ -241,6 +269,7 @@ export const puzzleBank: Puzzle[] = [
         answer: "hivemind",
         category: "phenomenon",
         title: "Collective Agreement",
+        difficulty: 0.5,
         hints: [
             "When the majority opinion dominates and dissent gets buried.",
             "Upvotes create a feedback loop that reinforces popular views.",
@@ -253,6 +282,7 @@ export const puzzleBank: Puzzle[] = [
         answer: "flair",
         category: "customization",
         title: "Badge of Identity",
+        difficulty: 0.5,
         hints: [
             "A small label next to your username that shows team or role.",
             "Some subreddits require it before you can post.",
@@ -265,6 +295,7 @@ export const puzzleBank: Puzzle[] = [
         answer: "tifu",
         category: "storytelling",
         title: "Mistake Made Public",
+        difficulty: 0.7,
         hints: [
             "Four letters that preface the most entertaining confessions.",
             "Stories range from minor embarrassment to life-altering blunders.",
@@ -277,6 +308,7 @@ export const puzzleBank: Puzzle[] = [
         answer: "upvote",
         category: "mechanics",
         title: "Arrow of Approval",
+        difficulty: 0.2,
         hints: [
             "One click to show agreement, appreciation, or 'this is funny.'",
             "The direction is always skyward — toward visibility.",
@@ -287,8 +319,10 @@ export const puzzleBank: Puzzle[] = [
     {
         id: "p024",
         answer: "rabbit hole",
+        nearMisses: ["wikihole", "wiki hole"],
         category: "experience",
         title: "Time Vanished",
+        difficulty: 0.5,
         hints: [
             "You clicked on one link, then another, and suddenly it's 3 AM.",
             "Wikipedia, Reddit threads, and YouTube all enable this behavior.",
@@ -301,6 +335,7 @@ export const puzzleBank: Puzzle[] = [
         answer: "goldfish",
         category: "pets",
         title: "Bowl Buddy",
+        difficulty: 0.7,
         hints: [
             "A common first pet that lives in a small glass container.",
             "Despite myths, they can actually remember things for months.",
@@ -313,6 +348,7 @@ export const puzzleBank: Puzzle[] = [
         answer: "meme",
         category: "culture",
         title: "Shared Language",
+        difficulty: 0.2,
         hints: [
             "An image, video, or phrase that spreads rapidly across the internet.",
             "The best ones capture a universal feeling in a single frame.",
@@ -325,6 +361,7 @@ export const puzzleBank: Puzzle[] = [
         answer: "subreddit",
         category: "structure",
         title: "Community Within a Community",
+        difficulty: 0.2,
         hints: [
             "Every topic, hobby, and niche has its own dedicated space.",
             "Prefixed with 'r/' and managed by volunteer moderators.",
@@ -337,6 +374,7 @@ export const puzzleBank: Puzzle[] = [
         answer: "frontpage",
         category: "achievement",
         title: "Peak Visibility",
+        difficulty: 0.4,
         hints: [
             "Getting here means thousands or millions will see your content.",
             "It's the ultimate validation for a Reddit post.",
@@ -349,6 +387,7 @@ export const puzzleBank: Puzzle[] = [
         answer: "cakeday",
         category: "tradition",
         title: "Anniversary Slice",
+        difficulty: 0.4,
         hints: [
             "A small icon appears next to your name on this special day.",
             "It celebrates the date your account was created.",
@@ -361,6 +400,7 @@ export const puzzleBank: Puzzle[] = [
         answer: "shitpost",
         category: "humor",
         title: "Low Effort, High Impact",
+        difficulty: 0.5,
         hints: [
             "Created with minimal effort but maximum comedic absurdity.",
             "Quality is intentionally low — that's the entire point.",
@@ -373,6 +413,7 @@ export const puzzleBank: Puzzle[] = [
         answer: "deepfake",
         category: "technology",
         title: "Seeing Isn't Believing",
+        difficulty: 0.5,
         hints: [
             "AI-generated media that makes anyone say or do anything.",
             "The realism has improved so much that detection is difficult.",
@@ -383,8 +424,10 @@ export const puzzleBank: Puzzle[] = [
     {
         id: "p032",
         answer: "gilded",
+        nearMisses: ["gold", "reddit gold", "award"],
         category: "reward",
         title: "Golden Recognition",
+        difficulty: 0.6,
         hints: [
             "When someone spends real money to highlight your contribution.",
             "A shiny icon appears next to the post or comment.",
@@ -397,6 +440,7 @@ export const puzzleBank: Puzzle[] = [
         answer: "satire",
         category: "writing",
         title: "Serious About Not Being Serious",
+        difficulty: 0.6,
         hints: [
             "It looks real, reads real, but the intention is mockery.",
             "The best versions make you question if the author is joking.",
@@ -407,8 +451,10 @@ export const puzzleBank: Puzzle[] = [
     {
         id: "p034",
         answer: "bot",
+        nearMisses: ["automod", "automoderator"],
         category: "automation",
         title: "Not a Real Person",
+        difficulty: 0.3,
         hints: [
             "It replies instantly with formatted information or a reminder.",
             "Some are helpful, some are annoying, some are malicious.",
@@ -419,8 +465,10 @@ export const puzzleBank: Puzzle[] = [
     {
         id: "p035",
         answer: "ama",
+        acceptedAnswers: ["ask me anything", "iama"],
         category: "format",
         title: "Open Questions",
+        difficulty: 0.4,
         hints: [
             "Three letters that invite the internet to interrogate you.",
             "Celebrities, scientists, and everyday people have done them.",
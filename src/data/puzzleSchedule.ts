@@ -0,0 +1,65 @@
+/**
+ * Versioned daily puzzle schedule.
+ *
+ * A day's puzzle must never change once it has been published, so selection
+ * is driven by this ledger rather than by the live length of `puzzleBank`.
+ *
+ * Rules for editing:
+ * - `puzzleBank` is append-only. Never reorder or remove published puzzles.
+ * - After appending puzzles, add a new version whose `effectiveFrom` is a
+ *   day that has not been published yet and whose `bankSize` covers the
+ *   new puzzles. Existing versions are never edited.
+ * - `assignments` pins a specific puzzle to a day. Entries are append-only
+ *   and take priority over the versioned selection.
+ *
+ * Strategies:
+ * - `hash` picks an independent puzzle per day from the day's seed.
+ * - `rotation` deals the pool without repeats until it is exhausted (or,
+ *   with `cooldownDays`, until a puzzle has been off the schedule that many
+ *   days) and avoids the same category on back-to-back days.
+ *
+ * Preview the upcoming schedule with `npm run schedule`.
+ */
+
+export interface ScheduleVersion {
+    version: number;
+    effectiveFrom: string;
+    bankSize: number;
+    strategy?: "hash" | "rotation";
+    cooldownDays?: number;
+}
+
+export interface PuzzleSchedule {
+    versions: ScheduleVersion[];
+    assignments: Record<string, string>;
+}
+
+export const puzzleSchedule: PuzzleSchedule = {
+    versions: [
+        { version: 1, effectiveFrom: "2026-01-01", bankSize: 35, strategy: "hash" },
+        { version: 2, effectiveFrom: "2026-11-01", bankSize: 35, strategy: "rotation" }
+    ],
+    assignments: {}
+};
+
+/**
+ * A subreddit's own puzzles, authored by its moderators and kept in Redis by
+ * the Devvit host. It is a ledger in the same spirit as `puzzleSchedule`:
+ * each puzzle is pinned to the day it lands on when it is added, always after
+ * today, so a published day never changes.
+ *
+ * `modes` says what happens on days without a custom puzzle, from a given
+ * day onwards: `merge` falls back to the default schedule, `replace` replays
+ * the custom puzzles that have already landed.
+ */
+export type CustomBankMode = "merge" | "replace";
+
+export interface CustomBankVersion {
+    effectiveFrom: string;
+    mode: CustomBankMode;
+}
+
+export interface CustomPuzzleBank<P> {
+    modes: CustomBankVersion[];
+    puzzles: (P & { landsOn: string })[];
+}
@@ -0,0 +1,51 @@
+import { useCallback, useRef, useState } from 'react';
+import { BridgeError, devvitBridge } from '../utils/devvitBridge';
+import type { ClueModAction, ClueQueue } from '../utils/bridgeProtocol';
+
+interface ClueQueueResult {
+  queue: ClueQueue | null;
+  isLoading: boolean;
+  error: string | null;
+  refresh: () => void;
+  moderate: (dayKey: string, clueId: string, action: ClueModAction) => void;
+}
+
+// Mod-only: the host checks the moderator's permission on every call
+export function useClueQueue(): ClueQueueResult {
+  const [queue, setQueue] = useState<ClueQueue | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Only the latest request counts, so a slow refresh can't undo an action
+  const latestRef = useRef(0);
+
+  const run = useCallback((request: () => Promise<ClueQueue>, failure: string) => {
+    if (!devvitBridge.isInsideReddit) return;
+    const requestId = ++latestRef.current;
+    setIsLoading(true);
+    setError(null);
+    request()
+      .then(
+        (result) => {
+          if (requestId === latestRef.current) setQueue(result);
+        },
+        (err: unknown) => {
+          console.error("Failed to update clue queue:", err);
+          if (requestId !== latestRef.current) return;
+          setError(err instanceof BridgeError && err.code !== "INTERNAL" ? err.message : failure);
+        }
+      )
+      .finally(() => {
+        if (requestId === latestRef.current) setIsLoading(false);
+      });
+  }, []);
+
+  const refresh = useCallback(() => {
+    run(() => devvitBridge.call("getClueQueue", {}), "Couldn't load the clue queue. Try again in a moment.");
+  }, [run]);
+
+  const moderate = useCallback((dayKey: string, clueId: string, action: ClueModAction) => {
+    run(() => devvitBridge.call("moderateClue", { dayKey, clueId, action }), "That action didn't go through. Try again.");
+  }, [run]);
+
+  return { queue, isLoading, error, refresh, moderate };
+}
@@ -1,30 +1,57 @@
 import { create } from 'zustand';
-import { useState, useCallback } from 'react';
-import {
-  pickDailyPuzzle,
-  computeScore,
-  evaluateGuess,
-  validateCommunityClue,
-  rankCommunityClues
-} from '../core/dailyGameEngine';
-
-import type { Player, Puzzle, CommunityClue, DailyGameState, PlayerDailyState, Guess } from '../types';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { extendStreak, liveStreakDays, pickSubredditPuzzle, resolveStreak } from '../core/dailyGameEngine';
+import { createGameMachine, derivePhase, furtherBoard, gameReducer } from '../core/gameReducer';
+import { DEFAULT_GAME_RULES, resolveGameRules } from '../core/gameRules';
+import type { GameAction, GameMachineState } from '../core/gameReducer';
+import { BridgeError, devvitBridge } from '../utils/devvitBridge';
+import { isPlayerMethod } from '../utils/bridgeProtocol';
+import type {
+  AnswerReveal,
+  BridgeMethod,
+  BridgeParams,
+  BridgeResult,
+  CluePayload,
+  GameVerdict,
+  InitialState,
+  PlayerStatePayload,
+  SavedProgress
+} from '../utils/bridgeProtocol';
+import type { PublicPuzzle } from '../data/publicPuzzleBank';
+
+import type { Player, Puzzle, ClueVote, CommunityClue, DailyGameState, PlayerDailyState, Guess, LetterState, ScoreBreakdown, ArchiveDayStatus, GameHistory, StreakRecord } from '../types';
 
 const STORAGE_KEYS = {
   streak: "threadpulse.streak",
-  clues: "threadpulse.cluesByDay"
+  clues: "threadpulse.cluesByDay",
+  progress: "threadpulse.progressByDay",
+  history: "threadpulse.history"
 };
 
-const MAX_GUESSES = 6;
+const PROGRESS_RETENTION_DAYS = 7;
+// How long to wait for the host's handshake before playing locally
+const HANDSHAKE_TIMEOUT_MS = 3000;
+const ARCHIVE_HISTORY_DAYS = 365;
 
 interface GameStoreResult {
   currentGame: DailyGameState | null;
   isLoading: boolean;
   error: string | null;
-  refreshGame: () => Promise<void>;
+  elapsedSeconds: number;
+  archiveStatus: Record<string, ArchiveDayStatus>;
+  /** Today's day key — the host's when running inside Reddit */
+  todayKey: string;
+  username: string | null;
+  subreddit: string | null;
+  refreshGame: (date?: Date) => Promise<void>;
   submitGuess: (guess: string) => Promise<boolean>;
   unlockHint: () => Promise<void>;
+  setHardMode: (enabled: boolean) => void;
   submitClue: (clue: string) => Promise<boolean>;
+  voteClue: (clueId: string, vote: ClueVote) => void;
+  /** Undefined outside Reddit, where there are no moderators to report to */
+  reportClue?: (clueId: string) => void;
+  canModerateClues: boolean;
 }
 
 function buildInitialPlayerState(): PlayerDailyState {
@@ -35,51 +62,59 @@ function buildInitialPlayerState(): PlayerDailyState {
     score: 0,
     completed: false,
     timeStarted: now,
-    streak: 0
+    streak: 0,
+    hardMode: false
   };
 }
 
-function buildPuzzleModel(rawPuzzle: any): Puzzle {
+function buildPuzzleModel(rawPuzzle: PublicPuzzle): Puzzle {
   const now = new Date();
   return {
     id: String(rawPuzzle.id),
     title: String(rawPuzzle.title),
-    answer: String(rawPuzzle.answer),
+    digest: rawPuzzle.digest,
     category: String(rawPuzzle.category),
     hints: Array.isArray(rawPuzzle.hints) ? rawPuzzle.hints.map((h: unknown) => String(h)) : [],
     subredditTags: Array.isArray(rawPuzzle.subredditTags)
       ? rawPuzzle.subredditTags.map((tag: unknown) => String(tag))
       : [],
-    difficulty: 0.5,
+    nearMissPolicy: rawPuzzle.nearMissPolicy === "counted" || rawPuzzle.nearMissPolicy === "off"
+      ? rawPuzzle.nearMissPolicy
+      : "free",
+    difficulty: Number.isFinite(Number(rawPuzzle.difficulty)) ? Number(rawPuzzle.difficulty) : 0.5,
     createdAt: now
   };
 }
 
-function getStreak(): number {
+// localStorage is this device's cache of the streak; inside Reddit the
+// handshake reconciles it with the copy the host keeps for the player.
+function getStreakState(): StreakRecord {
   try {
     const raw = localStorage.getItem(STORAGE_KEYS.streak);
-    if (!raw) return 0;
+    if (!raw) return { lastSolvedDay: null, streakDays: 0 };
     const parsed = JSON.parse(raw);
-    return Number(parsed.streakDays || 0);
+    return {
+      lastSolvedDay: typeof parsed.lastSolvedDay === "string" ? parsed.lastSolvedDay : null,
+      streakDays: Number(parsed.streakDays || 0)
+    };
   } catch {
-    return 0;
+    return { lastSolvedDay: null, streakDays: 0 };
   }
 }
 
-function getStreakState() {
+function saveStreakState(streak: StreakRecord) {
   try {
-    const raw = localStorage.getItem(STORAGE_KEYS.streak);
-    if (!raw) return { lastSolvedDay: null as string | null, streakDays: 0 };
-    const parsed = JSON.parse(raw);
-    return {
-      lastSolvedDay: typeof parsed.lastSolvedDay === "string" ? parsed.lastSolvedDay : null,
-      streakDays: Number(parsed.streakDays || 0)
-    };
+    localStorage.setItem(STORAGE_KEYS.streak, JSON.stringify(streak));
   } catch {
-    return { lastSolvedDay: null as string | null, streakDays: 0 };
+    // Non-blocking: gameplay should continue even if persistence fails.
   }
 }
 
+// The streak still counting today; a missed day shows as zero.
+function getStreak(todayKey: string): number {
+  return liveStreakDays(getStreakState(), todayKey);
+}
+
 function toUtcDayKey(inputDate = new Date()) {
   const d = new Date(inputDate);
   const year = d.getUTCFullYear();
@@ -94,22 +129,14 @@ function shiftUtcDay(dayKey: string, days: number): string {
   return toUtcDayKey(d);
 }
 
-function updateStreak(dayKey: string): number {
-  const streak = getStreakState();
-  if (streak.lastSolvedDay === dayKey) return streak.streakDays;
-
-  const yesterday = shiftUtcDay(dayKey, -1);
-  const next = {
-    lastSolvedDay: dayKey,
-    streakDays: streak.lastSolvedDay === yesterday ? streak.streakDays + 1 : 1
-  };
-
-  try {
-    localStorage.setItem(STORAGE_KEYS.streak, JSON.stringify(next));
-  } catch {
-    // Non-blocking: gameplay should continue even if persistence fails.
-  }
+// The streak a solve on `dayKey` would produce, without saving it.
+function projectStreak(dayKey: string): number {
+  return extendStreak(getStreakState(), dayKey).streakDays;
+}
 
+function updateStreak(dayKey: string): number {
+  const next = extendStreak(getStreakState(), dayKey);
+  saveStreakState(next);
   return next.streakDays;
 }
 
@@ -136,141 +163,462 @@ function saveStoredClues(dayKey: string, clues: CommunityClue[]) {
   }
 }
 
+function reviveClue(raw: CluePayload): CommunityClue {
+  return { ...raw, createdAt: new Date(raw.createdAt) };
+}
+
+function reviveDate(value: unknown): Date | undefined {
+  if (value === undefined || value === null) return undefined;
+  const date = new Date(value as string);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+function revivePlayerState(raw: any): PlayerDailyState | null {
+  if (!raw || !Array.isArray(raw.guesses)) return null;
+
+  const timeStarted = reviveDate(raw.timeStarted);
+  if (!timeStarted) return null;
+
+  return {
+    guesses: raw.guesses.map((g: any): Guess => ({
+      text: String(g.text),
+      timestamp: reviveDate(g.timestamp) ?? timeStarted,
+      hintsUsed: Number(g.hintsUsed || 1),
+      correct: Boolean(g.correct),
+      ...(typeof g.score === "number" ? { score: g.score } : {}),
+      ...(Array.isArray(g.letters) ? { letters: g.letters as LetterState[] } : {}),
+      ...(g.close ? { close: true } : {})
+    })),
+    hintsUnlocked: Math.max(1, Math.min(3, Number(raw.hintsUnlocked || 1))),
+    score: Number(raw.score || 0),
+    ...(raw.scoreBreakdown && Array.isArray(raw.scoreBreakdown.items)
+      ? { scoreBreakdown: raw.scoreBreakdown as ScoreBreakdown }
+      : {}),
+    completed: Boolean(raw.completed),
+    timeStarted,
+    timeCompleted: reviveDate(raw.timeCompleted),
+    streak: Number(raw.streak || 0),
+    hardMode: Boolean(raw.hardMode)
+  };
+}
+
+function readProgressMap(): Record<string, SavedProgress> {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEYS.progress);
+    const parsed = raw ? JSON.parse(raw) : {};
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function getStoredProgress(dayKey: string, puzzleId: string): PlayerDailyState | null {
+  const entry = readProgressMap()[dayKey];
+  // A different puzzle for the same day means the saved run no longer applies.
+  if (!entry || entry.puzzleId !== puzzleId) return null;
+  return revivePlayerState(entry.playerState);
+}
+
+// The host's verified board wins over the local copy. Letter tiles are only
+// kept locally, so carry them over for guesses both copies agree on.
+function mergeHostProgress(local: PlayerDailyState | null, host: PlayerDailyState | null): PlayerDailyState | null {
+  if (!host) return local;
+  if (!local) return host;
+  return {
+    ...host,
+    guesses: host.guesses.map((guess, i) => {
+      const letters = local.guesses[i]?.text === guess.text ? local.guesses[i].letters : undefined;
+      return letters ? { ...guess, letters } : guess;
+    })
+  };
+}
+
+function isFinished(playerState: Pick<PlayerDailyState, "completed" | "guesses">, maxGuesses: number) {
+  return derivePhase(playerState, maxGuesses) !== "playing";
+}
+
+function writeProgressMap(progress: Record<string, SavedProgress>) {
+  try {
+    localStorage.setItem(STORAGE_KEYS.progress, JSON.stringify(progress));
+  } catch {
+    // Non-blocking: gameplay should continue even if persistence fails.
+  }
+}
+
+function toPayload(playerState: PlayerDailyState): PlayerStatePayload {
+  return {
+    ...playerState,
+    timeStarted: new Date(playerState.timeStarted).toISOString(),
+    timeCompleted: playerState.timeCompleted ? new Date(playerState.timeCompleted).toISOString() : undefined
+  };
+}
+
+// Unfinished runs expire after a week without play; finished days are kept
+// for a year so the archive calendar can show them. Returns the saved entry.
+function saveStoredProgress(
+  dayKey: string,
+  puzzleId: string,
+  playerState: PlayerDailyState,
+  archive: boolean,
+  maxGuesses: number
+): SavedProgress {
+  const progress = readProgressMap();
+  const staleBefore = Date.now() - PROGRESS_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  const oldestKept = shiftUtcDay(toUtcDayKey(), -ARCHIVE_HISTORY_DAYS);
+  for (const [key, entry] of Object.entries(progress)) {
+    const finished = entry?.playerState ? isFinished(entry.playerState, maxGuesses) : false;
+    const savedAt = new Date(entry?.savedAt).getTime();
+    if (key < oldestKept || (!finished && !(savedAt >= staleBefore))) delete progress[key];
+  }
+
+  const entry: SavedProgress = { puzzleId, savedAt: new Date().toISOString(), archive, playerState: toPayload(playerState) };
+  progress[dayKey] = entry;
+  writeProgressMap(progress);
+  return entry;
+}
+
+// Reconcile this device's cache with the streak and boards the host keeps
+// for the player. The greater live streak wins, and for each day the board
+// that got further. Returns what the host is missing, so it can be sent back.
+function adoptSyncedState(initial: InitialState) {
+  const { maxGuesses } = resolveGameRules(initial.settings.rules);
+  const localStreak = getStreakState();
+  const streak = resolveStreak(localStreak, initial.streak, initial.dayKey);
+  saveStreakState(streak);
+
+  const progress = readProgressMap();
+  const outgoing: Record<string, SavedProgress> = {};
+  const remoteProgress = initial.progressByDay ?? {};
+  for (const [dayKey, remote] of Object.entries(remoteProgress)) {
+    const local = progress[dayKey];
+    if (!revivePlayerState(remote?.playerState)) continue;
+    // On a tie the host's copy is adopted
+    const localIsFurther = local?.puzzleId === remote.puzzleId
+      && furtherBoard(local.playerState, remote.playerState, maxGuesses) === local.playerState;
+    if (localIsFurther) outgoing[dayKey] = local;
+    else progress[dayKey] = remote;
+  }
+  for (const [dayKey, local] of Object.entries(progress)) {
+    if (!remoteProgress[dayKey] && local?.playerState && hasProgress(local.playerState)) outgoing[dayKey] = local;
+  }
+  writeProgressMap(progress);
+
+  return { streak: streak !== initial.streak && streak.lastSolvedDay ? streak : null, progress: outgoing };
+}
+
+// A fresh board is not worth syncing
+function hasProgress(playerState: Pick<PlayerDailyState, "guesses" | "hintsUnlocked">) {
+  return playerState.guesses.length > 0 || playerState.hintsUnlocked > 1;
+}
+
+function readArchiveStatus(maxGuesses: number): Record<string, ArchiveDayStatus> {
+  const status: Record<string, ArchiveDayStatus> = {};
+  for (const [dayKey, entry] of Object.entries(readProgressMap())) {
+    const state = entry?.playerState;
+    if (!state || !Array.isArray(state.guesses)) continue;
+    if (state.completed) status[dayKey] = "solved";
+    else if (state.guesses.length >= maxGuesses) status[dayKey] = "failed";
+    else if (state.guesses.length > 0) status[dayKey] = "in-progress";
+  }
+  return status;
+}
+
+function recordHistory(game: DailyGameState, playerState: PlayerDailyState) {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEYS.history);
+    const history: GameHistory[] = raw ? JSON.parse(raw) : [];
+    const startedAt = new Date(playerState.timeStarted).getTime();
+    const endedAt = playerState.timeCompleted ? new Date(playerState.timeCompleted).getTime() : Date.now();
+    const entry: GameHistory = {
+      date: new Date(`${game.dayKey}T00:00:00Z`),
+      puzzleId: game.puzzle.id,
+      completed: playerState.completed,
+      score: playerState.score,
+      timeTaken: Number.isNaN(startedAt) ? 0 : Math.max(0, Math.round((endedAt - startedAt) / 1000)),
+      hintsUsed: playerState.hintsUnlocked,
+      difficulty: game.puzzle.difficulty,
+      timestamp: Date.now(),
+      puzzle: { category: game.puzzle.category },
+      dayKey: game.dayKey,
+      archive: game.isArchive,
+      hardMode: playerState.hardMode
+    };
+    const next = [...history.filter((item) => item.dayKey !== game.dayKey), entry];
+    localStorage.setItem(STORAGE_KEYS.history, JSON.stringify(next));
+  } catch {
+    // Non-blocking: stats persistence errors should not block gameplay.
+  }
+}
+
+// Outside Reddit there is no host to reveal answers. The dev server reads them
+// from the plaintext bank up front; production builds never include it.
+async function revealLocally(puzzleId: string) {
+  if (import.meta.env.DEV) {
+    const { puzzleBank } = await import('../data/puzzleBank');
+    return puzzleBank.find((item) => item.id === puzzleId) ?? null;
+  }
+  return null;
+}
+
 export function useGameStore(): GameStoreResult {
-  const [currentGame, setCurrentGame] = useState<DailyGameState | null>(null);
+  const [machine, setMachine] = useState<GameMachineState | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Actions read the latest state from here so back-to-back dispatches never
+  // start from a stale render.
+  const machineRef = useRef<GameMachineState | null>(null);
+  const [host, setHost] = useState<InitialState | null>(null);
+  const handshakeRef = useRef<Promise<InitialState | null> | null>(null);
+  // Set by the handshake for a logged-out viewer, whose game stays on this device
+  const anonymousRef = useRef(false);
+
+  // Host calls never block play: the local board has already moved on, so a
+  // failure is logged, and a refusal (e.g. a tab left open past midnight) is shown.
+  // `onFailure` lets an optimistic change be rolled back. A logged-out viewer's
+  // player methods are not sent at all, since the host would refuse them.
+  const callHost = useCallback(<M extends BridgeMethod>(
+    method: M,
+    params: BridgeParams<M>,
+    onResult: (result: BridgeResult<M>) => void,
+    onFailure?: () => void
+  ) => {
+    if (!devvitBridge.isInsideReddit || (anonymousRef.current && isPlayerMethod(method))) return;
+    devvitBridge.call(method, params).then(onResult, (err: unknown) => {
+      console.error(`Devvit ${method} failed:`, err);
+      if (err instanceof BridgeError && err.code === "NOT_ALLOWED") setError(err.message);
+      onFailure?.();
+    });
+  }, []);
 
-  const refreshGame = useCallback(async () => {
+  // Asked once per page load; null means there is no host and the game runs locally.
+  // The reply also brings the player's streak and boards from other devices.
+  const loadInitialState = useCallback(() => {
+    if (!handshakeRef.current) {
+      handshakeRef.current = devvitBridge.isInsideReddit
+        ? devvitBridge.call("init", {}, { timeoutMs: HANDSHAKE_TIMEOUT_MS }).then(
+            (state) => {
+              anonymousRef.current = state.username === null;
+              const missing = adoptSyncedState(state);
+              if (missing.streak) {
+                callHost("syncStreak", { streak: missing.streak }, (streak) => {
+                  saveStreakState(resolveStreak(getStreakState(), streak, state.dayKey));
+                });
+              }
+              if (Object.keys(missing.progress).length > 0) {
+                callHost("saveProgress", { entries: missing.progress }, () => {});
+              }
+              setHost(state);
+              return state;
+            },
+            (err: unknown) => {
+              console.error("Devvit handshake failed, playing locally:", err);
+              return null;
+            }
+          )
+        : Promise.resolve(null);
+    }
+    return handshakeRef.current;
+  }, [callHost]);
+
+  const commit = useCallback((next: GameMachineState | null) => {
+    machineRef.current = next;
+    setMachine(next);
+  }, []);
+
+  const dispatch = useCallback((action: GameAction) => {
+    const prev = machineRef.current;
+    if (!prev) return null;
+    const next = gameReducer(prev, action);
+    if (next !== prev) commit(next);
+    return { prev, next };
+  }, [commit]);
+
+  // The host re-scores every solve; its score is the one on the leaderboard.
+  // It also supplies letter feedback, which needs the answer.
+  const applyVerdict = useCallback((verdict: GameVerdict) => {
+    if (verdict.dayKey !== machineRef.current?.game.dayKey) return;
+    if (typeof verdict.guess === "string" && Array.isArray(verdict.letters)) {
+      dispatch({ type: "GUESS_LETTERS", guess: verdict.guess, letters: verdict.letters });
+    }
+    if (verdict.phase === "solved") {
+      dispatch({
+        type: "VERIFY_SCORE",
+        score: verdict.score,
+        ...(verdict.breakdown ? { breakdown: verdict.breakdown } : {})
+      });
+    }
+  }, [dispatch]);
+
+  const applyReveal = useCallback((reveal: AnswerReveal) => {
+    if (reveal.dayKey !== machineRef.current?.game.dayKey) return;
+    dispatch({ type: "REVEAL_ANSWER", answer: reveal.answer, acceptedAnswers: reveal.acceptedAnswers });
+  }, [dispatch]);
+
+  // Replace the day's clues (host-ranked, or edited optimistically) and cache them
+  const applyClues = useCallback((dayKey: string, clues: CommunityClue[]) => {
+    if (dayKey !== machineRef.current?.game.dayKey) return;
+    dispatch({ type: "LOAD_CLUES", clues });
+    saveStoredClues(dayKey, clues);
+  }, [dispatch]);
+
+  const replaceClue = useCallback((dayKey: string, clueId: string, clue: CommunityClue | null) => {
+    const clues = machineRef.current?.game.communityClues ?? [];
+    applyClues(dayKey, clue
+      ? clues.map((item) => (item.id === clueId ? clue : item))
+      : clues.filter((item) => item.id !== clueId));
+  }, [applyClues]);
+
+  const refreshGame = useCallback(async (date?: Date) => {
     setIsLoading(true);
     setError(null);
 
     try {
-      const daily = pickDailyPuzzle(new Date());
+      const initial = await loadInitialState();
+      const todayKey = initial?.dayKey ?? toUtcDayKey();
+      // The subreddit's custom puzzles come with the handshake
+      const daily = pickSubredditPuzzle(date ?? new Date(`${todayKey}T12:00:00Z`), initial?.customPuzzles ?? null);
+      const dayKey = String(daily.dayKey);
+      if (dayKey > todayKey) {
+        throw new Error("That puzzle hasn't been released yet.");
+      }
+
+      // Archive plays never touch today's streak, so they start from zero.
+      const isArchive = dayKey < todayKey;
+      const streak = isArchive ? 0 : getStreak(todayKey);
+      const puzzle = buildPuzzleModel(daily.puzzle);
+      const hostProgress = !isArchive && initial?.dayKey === dayKey ? revivePlayerState(initial.progress) : null;
+      const restored = mergeHostProgress(getStoredProgress(dayKey, puzzle.id), hostProgress);
       const nextGame: DailyGameState = {
-        dayKey: String(daily.dayKey),
-        puzzle: buildPuzzleModel(daily.puzzle),
-        playerState: {
-          ...buildInitialPlayerState(),
-          streak: getStreak()
-        },
-        communityClues: getStoredClues(String(daily.dayKey)),
+        dayKey,
+        puzzle,
+        feedbackMode: initial?.settings.feedbackMode ?? "classic",
+        // The install's rules come with the handshake; local play uses the defaults
+        rules: resolveGameRules(initial?.settings.rules),
+        isArchive,
+        playerState: restored
+          ? { ...restored, streak: restored.completed || isArchive ? restored.streak : streak }
+          : { ...buildInitialPlayerState(), streak },
+        communityClues: getStoredClues(dayKey),
         leaderboard: [],
         timestamp: new Date()
       };
 
-      setCurrentGame(nextGame);
+      commit(createGameMachine(nextGame));
+      if (!isArchive) callHost("startGame", { dayKey }, applyVerdict);
+      callHost("getClues", { dayKey }, (result) => applyClues(result.dayKey, result.clues.map(reviveClue)));
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to initialize daily game.");
     } finally {
       setIsLoading(false);
     }
-  }, []);
-
-  const submitGuess = useCallback(
-    async (guess: string) => {
-      if (!currentGame || currentGame.playerState.completed) return false;
+  }, [loadInitialState, commit, callHost, applyVerdict, applyClues]);
+
+  const currentGame = machine?.game ?? null;
+  const phase = machine?.phase;
+
+  useEffect(() => {
+    if (!currentGame) return;
+    const entry = saveStoredProgress(
+      currentGame.dayKey,
+      currentGame.puzzle.id,
+      currentGame.playerState,
+      currentGame.isArchive,
+      currentGame.rules.maxGuesses
+    );
+    if (hasProgress(currentGame.playerState)) {
+      callHost("saveProgress", { entries: { [currentGame.dayKey]: entry } }, () => {});
+    }
+  }, [currentGame, callHost]);
 
-      if (currentGame.playerState.guesses.length >= MAX_GUESSES) {
-        setError("No guesses remaining for today.");
-        return false;
-      }
+  // Re-read after every save so the calendar reflects the latest result
+  const archiveStatus = useMemo(
+    () => readArchiveStatus(currentGame?.rules.maxGuesses ?? DEFAULT_GAME_RULES.maxGuesses),
+    [currentGame]
+  );
 
-      const normalizedGuess = guess.toLowerCase().replace(/[^a-z0-9]/g, "").trim();
-      const alreadyTried = currentGame.playerState.guesses.some(
-        (item: { text: string }) => item.text.toLowerCase().replace(/[^a-z0-9]/g, "").trim() === normalizedGuess
-      );
-      if (alreadyTried) {
-        setError("You already tried that guess.");
-        return false;
-      }
+  // Ask for the answer once it may be shown: past days right away, today once the game is over.
+  const dayKey = currentGame?.dayKey;
+  const puzzleId = currentGame?.puzzle.id;
+  const answerKnown = Boolean(currentGame?.puzzle.answer);
+  // The host only reveals today's answer to a logged-in player whose own game is over
+  const canReveal = Boolean(currentGame?.isArchive)
+    || (phase !== undefined && phase !== "playing" && host?.username !== null);
+  useEffect(() => {
+    if (!dayKey || !puzzleId || answerKnown) return;
+
+    if (devvitBridge.isInsideReddit) {
+      if (canReveal) callHost("revealAnswer", { dayKey }, applyReveal);
+      return;
+    }
 
-      const evaluation = evaluateGuess({
-        guess,
-        answer: currentGame.puzzle.answer
-      });
+    let cancelled = false;
+    void revealLocally(puzzleId).then((puzzle) => {
+      if (cancelled || !puzzle || machineRef.current?.game.dayKey !== dayKey) return;
+      dispatch({ type: "REVEAL_ANSWER", answer: puzzle.answer, acceptedAnswers: puzzle.acceptedAnswers });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [dayKey, puzzleId, answerKnown, canReveal, dispatch, callHost, applyReveal]);
 
-      const startedAt = new Date(currentGame.playerState.timeStarted);
-      const timeSeconds = Number.isNaN(startedAt.getTime()) ? 0 : Math.max(1, Math.round((Date.now() - startedAt.getTime()) / 1000));
+  useEffect(() => {
+    if (phase !== "playing") return;
+    const interval = setInterval(() => dispatch({ type: "TICK", at: new Date() }), 1000);
+    return () => clearInterval(interval);
+  }, [phase, dispatch]);
 
-      const nextScore = computeScore({
-        correct: evaluation.correct,
-        hintsUsed: currentGame.playerState.hintsUnlocked,
-        timeSeconds,
-        streakDays: currentGame.playerState.streak
-      });
+  const submitGuess = useCallback(
+    async (guess: string) => {
+      const game = machineRef.current?.game;
+      if (!game) return false;
 
-      const newGuess = {
-        text: guess,
-        timestamp: new Date(),
-        hintsUsed: currentGame.playerState.hintsUnlocked,
-        correct: evaluation.correct
-      };
+      const solvedStreak = game.isArchive ? game.playerState.streak : projectStreak(game.dayKey);
+      const result = dispatch({ type: "GUESS", guess, at: new Date(), solvedStreak });
+      if (!result) return false;
 
-      const nextStreak = evaluation.correct ? updateStreak(currentGame.dayKey) : currentGame.playerState.streak;
-
-      setCurrentGame({
-        ...currentGame,
-        playerState: {
-          ...currentGame.playerState,
-          guesses: [...currentGame.playerState.guesses, newGuess],
-          completed: evaluation.correct,
-          score: nextScore,
-          streak: nextStreak,
-          timeCompleted: evaluation.correct ? new Date() : currentGame.playerState.timeCompleted
-        }
-      });
-      if (evaluation.correct) {
-        setError(null);
-      } else if (currentGame.playerState.guesses.length + 1 >= MAX_GUESSES) {
-        setError("Round complete. Try again on the next daily puzzle.");
-      } else {
-        setError(`Not correct yet. ${MAX_GUESSES - (currentGame.playerState.guesses.length + 1)} guesses left.`);
+      const { prev, next } = result;
+      if (next.game !== prev.game && !next.game.isArchive) {
+        callHost("submitGuess", { dayKey: next.game.dayKey, guess }, applyVerdict);
       }
-
-      return evaluation.correct;
+      if (next.game !== prev.game && next.phase !== "playing") {
+        if (next.phase === "solved" && !next.game.isArchive) updateStreak(next.game.dayKey);
+        recordHistory(next.game, next.game.playerState);
+      }
+      if (next !== prev) setError(next.message);
+      return prev.phase === "playing" && next.phase === "solved";
     },
-    [currentGame]
+    [dispatch, callHost, applyVerdict]
   );
 
   const unlockHint = useCallback(async () => {
-    if (!currentGame || currentGame.playerState.completed) return;
-
-    const nextHints = Math.min(3, currentGame.playerState.hintsUnlocked + 1);
-    if (nextHints === currentGame.playerState.hintsUnlocked) return;
-
-    setCurrentGame({
-      ...currentGame,
-      playerState: {
-        ...currentGame.playerState,
-        hintsUnlocked: nextHints
+    const result = dispatch({ type: "UNLOCK_HINT" });
+    if (!result || result.next === result.prev) return;
+    setError(result.next.message);
+    if (result.next.game !== result.prev.game && !result.next.game.isArchive) {
+      callHost("unlockHint", { dayKey: result.next.game.dayKey }, applyVerdict);
+    }
+  }, [dispatch, callHost, applyVerdict]);
+
+  const setHardMode = useCallback(
+    (enabled: boolean) => {
+      const result = dispatch({ type: "SET_HARD_MODE", enabled });
+      if (!result || result.next === result.prev) return;
+      setError(result.next.message);
+      if (result.next.game !== result.prev.game && !result.next.game.isArchive) {
+        callHost("setHardMode", { dayKey: result.next.game.dayKey, enabled }, applyVerdict);
       }
-    });
-  }, [currentGame]);
+    },
+    [dispatch, callHost, applyVerdict]
+  );
 
   const submitClue = useCallback(
     async (clue: string) => {
-      if (!currentGame) return false;
-
-      if (currentGame.communityClues.some((item: CommunityClue) => item.author === "local-player")) {
-        setError("You already submitted a clue for today.");
-        return false;
-      }
-
-      const validation = validateCommunityClue(clue, {
-        forbiddenWords: [currentGame.puzzle.answer],
-        existingClues: currentGame.communityClues.map((item: CommunityClue) => item.text)
-      });
-      if (!validation.valid) {
-        setError(validation.reason || "Invalid clue.");
-        return false;
-      }
-
       const nextClue: CommunityClue = {
         id: `${Date.now()}-${Math.floor(Math.random() * 10000)}`,
-        text: clue.trim(),
-        author: "local-player",
+        text: clue,
+        author: host?.username ?? "local-player",
         upvotes: 1,
+        myVote: 1,
         modBoost: 0,
         aiAnalysis: {
           sentiment: 0,
@@ -284,25 +632,75 @@ export function useGameStore(): GameStoreResult {
         createdAt: new Date()
       };
 
-      const ranked = rankCommunityClues([...currentGame.communityClues, nextClue], 5);
-      saveStoredClues(currentGame.dayKey, ranked);
-      setCurrentGame({
-        ...currentGame,
-        communityClues: ranked
-      });
-      setError(null);
+      const result = dispatch({ type: "SUBMIT_CLUE", clue: nextClue });
+      if (!result) return false;
+
+      const { prev, next } = result;
+      setError(next.message);
+      if (next.game.communityClues === prev.game.communityClues) return false;
+
+      saveStoredClues(next.game.dayKey, next.game.communityClues);
+      // The host assigns the real id; a clue it refuses is taken back out
+      const { dayKey } = next.game;
+      callHost(
+        "submitClue",
+        { dayKey, clueText: clue },
+        (stored) => replaceClue(dayKey, nextClue.id, reviveClue(stored.clue)),
+        () => replaceClue(dayKey, nextClue.id, null)
+      );
       return true;
     },
-    [currentGame]
+    [dispatch, host, callHost, replaceClue]
+  );
+
+  // Votes show at once and are undone if the host doesn't take them
+  const voteClue = useCallback(
+    (clueId: string, vote: ClueVote) => {
+      const game = machineRef.current?.game;
+      const previous = game?.communityClues.find((clue) => clue.id === clueId)?.myVote ?? 0;
+      const result = dispatch({ type: "VOTE_CLUE", clueId, vote });
+      if (!game || !result || result.next === result.prev) return;
+
+      const { dayKey } = game;
+      saveStoredClues(dayKey, result.next.game.communityClues);
+      callHost(
+        "voteClue",
+        { dayKey, clueId, vote },
+        (voted) => replaceClue(dayKey, clueId, reviveClue(voted.clue)),
+        () => {
+          dispatch({ type: "VOTE_CLUE", clueId, vote: previous });
+          const reverted = machineRef.current?.game;
+          if (reverted?.dayKey === dayKey) saveStoredClues(dayKey, reverted.communityClues);
+        }
+      );
+    },
+    [dispatch, callHost, replaceClue]
+  );
+
+  const reportClue = useCallback(
+    (clueId: string) => {
+      const dayKey = machineRef.current?.game.dayKey;
+      if (dayKey) callHost("reportClue", { dayKey, clueId }, () => {});
+    },
+    [callHost]
   );
 
   return {
     currentGame,
     isLoading,
     error,
+    elapsedSeconds: machine?.elapsedSeconds ?? 0,
+    archiveStatus,
+    todayKey: host?.dayKey ?? toUtcDayKey(),
+    username: host?.username ?? null,
+    subreddit: host?.subreddit ?? null,
     refreshGame,
     submitGuess,
     unlockHint,
-    submitClue
+    setHardMode,
+    submitClue,
+    voteClue,
+    reportClue: devvitBridge.isInsideReddit ? reportClue : undefined,
+    canModerateClues: host?.canModerateClues ?? false
   };
 }
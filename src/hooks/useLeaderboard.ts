@@ -0,0 +1,76 @@
+import { useCallback, useRef, useState } from 'react';
+import { devvitBridge } from '../utils/devvitBridge';
+import type { LeaderboardPage } from '../utils/bridgeProtocol';
+
+import type { LeaderboardEntry, LeaderboardResponse } from '../types';
+
+interface LeaderboardResult {
+  board: LeaderboardResponse | null;
+  isLoading: boolean;
+  error: string | null;
+  /** Leaderboards live in Devvit Redis, so there is nothing to show outside Reddit */
+  isAvailable: boolean;
+  requestPage: (dayKey: string, page: number, hardMode: boolean) => void;
+}
+
+function reviveEntry(raw: LeaderboardEntry): LeaderboardEntry {
+  const username = String(raw.player?.username ?? "");
+  return {
+    player: { id: String(raw.player?.id ?? username), username },
+    score: Number(raw.score || 0),
+    time: Number(raw.time || 0),
+    rank: Number(raw.rank || 0),
+    change: Number(raw.change || 0)
+  };
+}
+
+function reviveBoard(raw: LeaderboardPage): LeaderboardResponse {
+  return {
+    dayKey: String(raw.dayKey),
+    hardMode: Boolean(raw.hardMode),
+    page: Number(raw.page || 0),
+    pageSize: Math.max(1, Number(raw.pageSize || 10)),
+    entries: Array.isArray(raw.entries) ? raw.entries.map(reviveEntry) : [],
+    ...(typeof raw.playerRank === "number" ? { playerRank: raw.playerRank } : {}),
+    ...(raw.playerEntry ? { playerEntry: reviveEntry(raw.playerEntry) } : {}),
+    totalPlayers: Number(raw.totalPlayers || 0),
+    lastUpdated: new Date(raw.lastUpdated ?? Date.now())
+  };
+}
+
+export function useLeaderboard(): LeaderboardResult {
+  const [board, setBoard] = useState<LeaderboardResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Only the latest request counts; a slow reply for an earlier page is dropped
+  const latestRef = useRef(0);
+
+  const requestPage = useCallback((dayKey: string, page: number, hardMode: boolean) => {
+    if (!devvitBridge.isInsideReddit) return;
+    const requestId = ++latestRef.current;
+    setIsLoading(true);
+    setError(null);
+    devvitBridge
+      .call("getLeaderboard", { dayKey, page, hardMode })
+      .then(
+        (result) => {
+          if (requestId === latestRef.current) setBoard(reviveBoard(result));
+        },
+        (err: unknown) => {
+          console.error("Failed to fetch leaderboard:", err);
+          if (requestId === latestRef.current) setError("Couldn't load the leaderboard. Try again in a moment.");
+        }
+      )
+      .finally(() => {
+        if (requestId === latestRef.current) setIsLoading(false);
+      });
+  }, []);
+
+  return {
+    board,
+    isLoading,
+    error,
+    isAvailable: devvitBridge.isInsideReddit,
+    requestPage
+  };
+}
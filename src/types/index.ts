@@ -39,11 +39,36 @@ export interface GameHistory {
   puzzle: {
     category: string;
   };
+  dayKey?: string;
+  archive?: boolean;
+  hardMode?: boolean;
+}
+
+export type ArchiveDayStatus = 'solved' | 'failed' | 'in-progress';
+
+export type NearMissPolicy = 'free' | 'counted' | 'off';
+
+/** Hash-only view of a puzzle's answer, shipped to the webview instead of the answer itself. */
+export interface AnswerDigest {
+  salt: string;
+  answerHash: string;
+  answerLength: number;
+  acceptedHashes: string[];
+  nearMissHashes: string[];
+  stemHashes: string[];
+  spellingHashes: string[];
+  typoDepth: number;
+  typoHashes: string[];
 }
 
 export interface Puzzle {
   id: string;
-  answer: string;
+  /** Only known once the host reveals it (game over, past days) or on the host itself. */
+  answer?: string;
+  digest: AnswerDigest;
+  acceptedAnswers?: string[];
+  nearMisses?: string[];
+  nearMissPolicy?: NearMissPolicy;
   category: string;
   title: string;
   hints: string[];
@@ -57,6 +82,9 @@ export interface Puzzle {
 export interface DailyGameState {
   dayKey: string;
   puzzle: Puzzle;
+  feedbackMode: FeedbackMode;
+  rules: GameRules;
+  isArchive: boolean;
   playerState: PlayerDailyState;
   communityClues: CommunityClue[];
   leaderboard?: LeaderboardEntry[];
@@ -67,31 +95,62 @@ export interface PlayerDailyState {
   guesses: Guess[];
   hintsUnlocked: number;
   score: number;
+  scoreBreakdown?: ScoreBreakdown;
   completed: boolean;
   timeStarted: Date;
   timeCompleted?: Date;
   streak: number;
+  hardMode: boolean;
+}
+
+/** A player's daily streak, kept in localStorage and per Reddit user on the host */
+export interface StreakRecord {
+  lastSolvedDay: string | null;
+  streakDays: number;
+}
+
+export type FeedbackMode = 'classic' | 'letters';
+
+/** Per-install rules, set in the Devvit app settings (see core/gameRules.ts) */
+export interface GameRules {
+  maxGuesses: number;
+  /** Points lost for each hint after the free first one */
+  hintCost: number;
+  /** When off, the clock is hidden and solve time costs nothing */
+  timer: boolean;
+  timePenaltyCap: number;
+  /** The local hour in `timeZone` at which the next puzzle starts */
+  resetHour: number;
+  timeZone: string;
+  clueSubmission: boolean;
 }
 
+export type LetterState = 'correct' | 'present' | 'absent';
+
 export interface Guess {
   text: string;
   timestamp: Date;
   hintsUsed: number;
   correct: boolean;
   score?: number;
+  letters?: LetterState[];
+  close?: boolean;
 }
 
 export interface CommunityClue {
   id: string;
   text: string;
   author: string;
-  upvotes: number;
+  upvotes: number; // net votes (up minus down)
   modBoost: number;
   aiAnalysis: AIClueAnalysis;
   createdAt: Date;
   approved: boolean;
+  myVote?: ClueVote; // the current player's vote, when known
 }
 
+export type ClueVote = -1 | 0 | 1;
+
 export interface AIClueAnalysis {
   sentiment: number; // -1 to 1
   creativity: number; // 0 to 1
@@ -140,10 +199,13 @@ export interface AIAdaptiveDifficulty {
 }
 
 export interface LeaderboardEntry {
-  player: Player;
+  player: Pick<Player, 'id' | 'username'>;
   score: number;
+  /** Seconds from the first move to the solve */
   time: number;
+  /** 1-based position on the board */
   rank: number;
+  /** Places gained since yesterday's board (negative when dropped, 0 when unranked yesterday) */
   change: number;
 }
 
@@ -187,6 +249,27 @@ export interface ScoreParams {
   difficulty: number;
 }
 
+export type ScoreLineKind = 'base' | 'hints' | 'time' | 'streak' | 'difficulty' | 'hardMode' | 'minimum' | 'unsolved';
+
+export interface ScoreLineItem {
+  kind: ScoreLineKind;
+  label: string;
+  rule: string;
+  points?: number;
+  multiplier?: number;
+}
+
+export interface ScoreBreakdown {
+  base: number;
+  hintPenalty: number;
+  timePenalty: number;
+  streakBonus: number;
+  difficultyMultiplier: number;
+  hardModeMultiplier: number;
+  total: number;
+  items: ScoreLineItem[];
+}
+
 // API Response types
 export interface ApiResponse<T> {
   success: boolean;
@@ -203,8 +286,14 @@ export interface DailyPuzzleResponse {
 }
 
 export interface LeaderboardResponse {
+  dayKey: string;
+  hardMode: boolean;
+  page: number;
+  pageSize: number;
   entries: LeaderboardEntry[];
   playerRank?: number;
+  /** The current player's row, so it can be shown when it is not on this page */
+  playerEntry?: LeaderboardEntry;
   totalPlayers: number;
   lastUpdated: Date;
 }
@@ -0,0 +1,200 @@
+/**
+ * Devvit Bridge Protocol
+ *
+ * The message schema shared by the webview (devvitBridge.ts) and the Devvit
+ * host (apps/devvit/src/main.tsx). Requests are RPC calls: the webview sends
+ * RPC_REQUEST with a correlation id, and the host answers with a response
+ * carrying the same id in its RPC_RESPONSES state. Nothing in this file may
+ * touch the DOM, so the host can import it.
+ */
+
+import type { GamePhase } from '../core/gameReducer';
+import type { PublicPuzzle } from '../data/publicPuzzleBank';
+import type { CustomPuzzleBank } from '../data/puzzleSchedule';
+import type {
+    ClueVote,
+    CommunityClue,
+    FeedbackMode,
+    GameRules,
+    LeaderboardResponse,
+    LetterState,
+    PlayerDailyState,
+    ScoreBreakdown,
+    StreakRecord,
+} from '../types';
+
+/** A board as sent over the bridge (dates travel as ISO strings) */
+export type PlayerStatePayload = Omit<PlayerDailyState, 'timeStarted' | 'timeCompleted'> & {
+    timeStarted: string;
+    timeCompleted?: string;
+};
+
+/** One day's saved board, as kept in localStorage and synced per Reddit user */
+export interface SavedProgress {
+    puzzleId: string;
+    savedAt: string;
+    archive?: boolean;
+    playerState: PlayerStatePayload;
+}
+
+/** The startup handshake: everything the webview needs before it picks a puzzle */
+export interface InitialState {
+    /** Null for a logged-out viewer, who plays locally; see PLAYER_METHODS */
+    username: string | null;
+    subreddit: string | null;
+    /** The host's puzzle day under the subreddit's reset hour and time zone; the webview treats it as "today" */
+    dayKey: string;
+    /** The host's verified board for `dayKey`, if the player has started it */
+    progress: PlayerStatePayload | null;
+    /** Whether the player may work the clue queue (Posts or Everything permission) */
+    canModerateClues: boolean;
+    /** The player's streak and saved boards from other devices */
+    streak: StreakRecord | null;
+    progressByDay: Record<string, SavedProgress>;
+    /** The install's settings; `rules` drive the reducer, scoring and UI */
+    settings: { feedbackMode: FeedbackMode; rules: GameRules };
+    /** The subreddit's own puzzles that have landed so far, hashed like the default bank */
+    customPuzzles: CustomPuzzleBank<PublicPuzzle> | null;
+}
+
+/** The host's verdict on a game action, replayed on its own copy of the board */
+export interface GameVerdict {
+    dayKey: string;
+    accepted: boolean;
+    /** Set for an accepted guess, with its letter feedback */
+    guess?: string;
+    letters?: LetterState[];
+    phase: GamePhase;
+    guesses: number;
+    score: number;
+    breakdown: ScoreBreakdown | null;
+    message: string | null;
+}
+
+export interface AnswerReveal {
+    dayKey: string;
+    answer: string;
+    acceptedAnswers: string[];
+}
+
+/** A leaderboard page as sent over the bridge (dates travel as ISO strings) */
+export type LeaderboardPage = Omit<LeaderboardResponse, 'lastUpdated'> & { lastUpdated: string };
+
+/** A community clue as sent over the bridge (dates travel as ISO strings) */
+export type CluePayload = Omit<CommunityClue, 'createdAt'> & { createdAt: string };
+
+/** A clue in the moderators' queue: awaiting approval, reported, or both */
+export type QueuedClue = CluePayload & { reports: number };
+
+export type ClueModAction = 'approve' | 'remove' | 'boost' | 'ban';
+
+/** Today's clues that need a moderator */
+export interface ClueQueue {
+    dayKey: string;
+    requireApproval: boolean;
+    pending: QueuedClue[];
+    reported: QueuedClue[];
+}
+
+/** Every call the webview can make, with its parameters and result */
+export interface BridgeMethods {
+    init: { params: Record<string, never>; result: InitialState };
+    startGame: { params: { dayKey: string }; result: GameVerdict };
+    submitGuess: { params: { dayKey: string; guess: string }; result: GameVerdict };
+    unlockHint: { params: { dayKey: string }; result: GameVerdict };
+    setHardMode: { params: { dayKey: string; enabled: boolean }; result: GameVerdict };
+    revealAnswer: { params: { dayKey: string }; result: AnswerReveal };
+    getLeaderboard: { params: { dayKey: string; page?: number; hardMode?: boolean }; result: LeaderboardPage };
+    submitClue: { params: { dayKey: string; clueText: string }; result: { clue: CluePayload } };
+    /** The day's top clues in rank order, plus the player's own */
+    getClues: { params: { dayKey: string }; result: { dayKey: string; clues: CluePayload[] } };
+    /** One vote per player; voting again changes it, and 0 withdraws it */
+    voteClue: { params: { dayKey: string; clueId: string; vote: ClueVote }; result: { clue: CluePayload } };
+    /** Flag a clue for the moderators; reporting twice counts once */
+    reportClue: { params: { dayKey: string; clueId: string }; result: { reported: boolean } };
+    /** Moderators only; the reply to an action is the updated queue */
+    getClueQueue: { params: Record<string, never>; result: ClueQueue };
+    moderateClue: { params: { dayKey: string; clueId: string; action: ClueModAction }; result: ClueQueue };
+    /** Offer this device's streak; the reply is the reconciled one */
+    syncStreak: { params: { streak: StreakRecord }; result: StreakRecord };
+    /** Store boards by day key; the host keeps whichever copy got further */
+    saveProgress: { params: { entries: Record<string, SavedProgress> }; result: { saved: number } };
+}
+
+export type BridgeMethod = keyof BridgeMethods;
+/**
+ * The methods that change a player's board, streak, saves or clues. The host
+ * refuses them for a logged-out viewer, so nobody can write to a shared
+ * anonymous player, and the webview doesn't send them.
+ */
+export const PLAYER_METHODS = [
+    'startGame',
+    'submitGuess',
+    'unlockHint',
+    'setHardMode',
+    'syncStreak',
+    'saveProgress',
+    'submitClue',
+    'voteClue',
+    'reportClue',
+] as const satisfies readonly BridgeMethod[];
+export type PlayerMethod = (typeof PLAYER_METHODS)[number];
+
+export function isPlayerMethod(method: string): method is PlayerMethod {
+    return (PLAYER_METHODS as readonly string[]).includes(method);
+}
+
+export type BridgeParams<M extends BridgeMethod> = BridgeMethods[M]['params'];
+export type BridgeResult<M extends BridgeMethod> = BridgeMethods[M]['result'];
+
+export type BridgeErrorCode =
+    | 'BAD_REQUEST'   // malformed or missing parameters
+    | 'NOT_ALLOWED'   // valid request the host refuses (e.g. a stale day)
+    | 'NOT_FOUND'     // unknown method
+    | 'TIMEOUT'       // no reply in time (raised by the webview)
+    | 'UNAVAILABLE'   // not running inside Reddit (raised by the webview)
+    | 'INTERNAL';     // the handler failed
+
+export interface BridgeErrorPayload {
+    code: BridgeErrorCode;
+    message: string;
+}
+
+/** Thrown by host handlers and rejected from `devvitBridge.call` */
+export class BridgeError extends Error {
+    readonly code: BridgeErrorCode;
+
+    constructor(code: BridgeErrorCode, message: string) {
+        super(message);
+        this.name = 'BridgeError';
+        this.code = code;
+    }
+}
+
+/** Turn anything a handler threw into an error the webview can show */
+export function toBridgeErrorPayload(error: unknown): BridgeErrorPayload {
+    if (error instanceof BridgeError) return { code: error.code, message: error.message };
+    return { code: 'INTERNAL', message: 'Something went wrong on the server.' };
+}
+
+// ─── Envelopes ───────────────────────────────────────────────────
+
+export interface BridgeRequest<M extends BridgeMethod = BridgeMethod> {
+    id: string;
+    method: M;
+    params: BridgeParams<M>;
+}
+
+export type BridgeResponse =
+    | { id: string; ok: true; result: unknown }
+    | { id: string; ok: false; error: BridgeErrorPayload };
+
+/**
+ * What the host delivers through the webview's state: the most recent
+ * replies. State updates can coalesce, so the webview settles each id once
+ * and skips the ones it has already seen.
+ */
+export type HostMessage = { type: 'RPC_RESPONSES'; data: { responses: BridgeResponse[] } };
+
+/** Messages the webview posts to the host */
+export type WebviewMessage = { type: 'RPC_REQUEST'; data: BridgeRequest };
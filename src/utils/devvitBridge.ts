@@ -4,8 +4,17 @@
  * Handles bidirectional communication between the webview game
  * and the Devvit host (Reddit app). Falls back gracefully when
  * running outside of Reddit (e.g., local dev server).
+ *
+ * Requests to the host go through `call`, which matches each reply to its
+ * request by correlation id. The message schema lives in bridgeProtocol.ts,
+ * which the host imports too.
  */
 
+import { BridgeError } from './bridgeProtocol';
+import type { BridgeMethod, BridgeParams, BridgeRequest, BridgeResponse, BridgeResult } from './bridgeProtocol';
+
+export { BridgeError } from './bridgeProtocol';
+
 type DevvitMessage = {
     type: string;
     data?: Record<string, unknown>;
@@ -13,8 +22,18 @@ type DevvitMessage = {
 
 type MessageHandler = (msg: DevvitMessage) => void;
 
+type PendingCall = {
+    resolve: (result: unknown) => void;
+    reject: (error: BridgeError) => void;
+    timer: ReturnType<typeof setTimeout>;
+};
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+
 class DevvitBridge {
     private handlers: Map<string, MessageHandler[]> = new Map();
+    private pending: Map<string, PendingCall> = new Map();
+    private nextId = 0;
     private isDevvit: boolean;
 
     constructor() {
@@ -24,8 +43,12 @@ class DevvitBridge {
         if (this.isDevvit) {
             window.addEventListener('message', (event) => {
                 try {
-                    const msg = typeof event.data === 'string' ? JSON.parse(event.data) : event.data;
-                    if (msg?.type) {
+                    const raw = typeof event.data === 'string' ? JSON.parse(event.data) : event.data;
+                    // Host messages arrive wrapped in a devvit-message envelope
+                    const msg = raw?.type === 'devvit-message' ? raw.data?.message : raw;
+                    if (msg?.type === 'RPC_RESPONSES') {
+                        this.settle(Array.isArray(msg.data?.responses) ? msg.data.responses : []);
+                    } else if (msg?.type) {
                         this.emit(msg.type, msg);
                     }
                 } catch {
@@ -76,22 +99,49 @@ class DevvitBridge {
         return this.isDevvit;
     }
 
-    /** Send game completion data to Devvit for leaderboard storage */
-    reportGameComplete(score: number, guesses: number, streak: number) {
-        const dayKey = new Date().toISOString().split('T')[0];
-        this.postMessage('GAME_COMPLETE', { score, guesses, streak, dayKey });
-    }
+    /**
+     * Call a host method and wait for its reply. Rejects with a BridgeError:
+     * the host's own error, TIMEOUT when no reply arrives in time, or
+     * UNAVAILABLE outside Reddit.
+     */
+    call<M extends BridgeMethod>(
+        method: M,
+        params: BridgeParams<M>,
+        { timeoutMs = DEFAULT_TIMEOUT_MS }: { timeoutMs?: number } = {}
+    ): Promise<BridgeResult<M>> {
+        if (!this.isDevvit) {
+            return Promise.reject(new BridgeError('UNAVAILABLE', 'The Reddit host is only available inside Reddit.'));
+        }
 
-    /** Submit a community clue to Devvit Redis storage */
-    submitClue(clueText: string) {
-        const dayKey = new Date().toISOString().split('T')[0];
-        this.postMessage('SUBMIT_CLUE', { clueText, dayKey });
+        const id = `${Date.now().toString(36)}-${(this.nextId++).toString(36)}`;
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => {
+                this.pending.delete(id);
+                reject(new BridgeError('TIMEOUT', `No reply to ${method} after ${timeoutMs}ms.`));
+            }, timeoutMs);
+            this.pending.set(id, {
+                resolve: (result) => resolve(result as BridgeResult<M>),
+                reject,
+                timer,
+            });
+            const request: BridgeRequest<M> = { id, method, params };
+            this.postMessage('RPC_REQUEST', { ...request });
+        });
     }
 
-    /** Request leaderboard data from Devvit */
-    requestLeaderboard() {
-        const dayKey = new Date().toISOString().split('T')[0];
-        this.postMessage('GET_LEADERBOARD', { dayKey });
+    private settle(responses: BridgeResponse[]) {
+        for (const response of responses) {
+            // Replies already settled (or timed out) are still in the host's state; skip them
+            const call = this.pending.get(response.id);
+            if (!call) continue;
+            this.pending.delete(response.id);
+            clearTimeout(call.timer);
+            if (response.ok) {
+                call.resolve(response.result);
+            } else {
+                call.reject(new BridgeError(response.error.code, response.error.message));
+            }
+        }
     }
 }
 